@@ -0,0 +1,314 @@
+-- TennisStats scraper — Supabase (Postgres) schema
+--
+-- Every table, column and unique constraint the scraper's upserts and filters
+-- rely on (database.ts / storage.ts). Safe to re-run: tables are created if
+-- missing and columns added if missing, so it also upgrades a database that
+-- only has the original tennis_daily_matches / tennis_h2h / tennisstats_accounts.
+--
+--   psql "$DATABASE_URL" -f sql/schema.sql     (or paste into the Supabase SQL editor)
+--
+-- The SQLite / JSON-lines backends (localstore.ts) need none of this.
+
+-- ─── Run ledger ──────────────────────────────────────────────────────────────
+
+create table if not exists scrape_runs (
+  id uuid primary key,
+  command text not null,
+  status text not null check (status in ('running', 'completed', 'failed')),
+  started_at timestamptz not null,
+  finished_at timestamptz,
+  account text,
+  phases jsonb not null default '{}'::jsonb,
+  h2h_successes integer not null default 0,
+  h2h_failures jsonb not null default '{}'::jsonb,
+  h2h_failure_samples jsonb not null default '{}'::jsonb,
+  field_population jsonb not null default '{}'::jsonb,
+  skipped_tournaments text[] not null default '{}',
+  error text
+);
+
+-- ─── Accounts ────────────────────────────────────────────────────────────────
+
+create table if not exists tennisstats_accounts (
+  username text primary key,
+  session_cookies text,
+  is_active boolean not null default true
+);
+alter table tennisstats_accounts add column if not exists health_status text not null default 'unknown';
+alter table tennisstats_accounts add column if not exists last_success_at timestamptz;
+alter table tennisstats_accounts add column if not exists last_failure_at timestamptz;
+alter table tennisstats_accounts add column if not exists last_validated_at timestamptz;
+alter table tennisstats_accounts add column if not exists failure_count integer not null default 0;
+alter table tennisstats_accounts add column if not exists last_error text;
+
+-- ─── Registries ──────────────────────────────────────────────────────────────
+
+create table if not exists tennis_players (
+  id text primary key,                  -- slug, e.g. 'jannik-sinner'
+  name text not null,
+  aliases text[] not null default '{}',
+  gender text check (gender in ('Men', 'Women')),
+  nationality text,                     -- maintained by hand
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists tennis_tournaments (
+  name text not null,
+  tier text not null,
+  gender text not null check (gender in ('Men', 'Women', 'Both')),
+  keywords text[] not null default '{}',
+  exclude_keywords text[] not null default '{}',
+  surface text,
+  location text,
+  start_date date,
+  end_date date,
+  draw_size integer,
+  is_active boolean not null default true,
+  primary key (name, gender)
+);
+
+-- ─── Daily matches ───────────────────────────────────────────────────────────
+
+create table if not exists tennis_daily_matches (
+  id bigint generated by default as identity primary key,
+  match_date date not null,
+  tournament text not null default '',
+  tournament_tier text not null default '',
+  tournament_official_name text not null default '',
+  country text not null default '',
+  gender text not null default 'Men',
+  category text not null default 'Singles',
+  surface text not null default 'Hard',
+  round text,
+  player1_name text not null,
+  player1_ranking integer,
+  player1_form numeric,
+  player1_odds numeric,
+  player2_name text not null,
+  player2_ranking integer,
+  player2_form numeric,
+  player2_odds numeric,
+  scheduled_time text,
+  status text not null default 'upcoming',
+  h2h_url text
+);
+alter table tennis_daily_matches add column if not exists match_key text;
+alter table tennis_daily_matches add column if not exists run_id uuid;
+alter table tennis_daily_matches add column if not exists tournament_match_confidence numeric;
+alter table tennis_daily_matches add column if not exists tournament_match_reason text;
+alter table tennis_daily_matches add column if not exists round_label text;
+alter table tennis_daily_matches add column if not exists round_order integer;
+alter table tennis_daily_matches add column if not exists player1_id text;
+alter table tennis_daily_matches add column if not exists player2_id text;
+alter table tennis_daily_matches add column if not exists winner_id text;
+alter table tennis_daily_matches add column if not exists schedule_kind text;
+alter table tennis_daily_matches add column if not exists scheduled_at timestamptz;
+alter table tennis_daily_matches add column if not exists court text;
+alter table tennis_daily_matches add column if not exists court_order integer;
+alter table tennis_daily_matches add column if not exists score text;
+alter table tennis_daily_matches add column if not exists set_scores jsonb;
+alter table tennis_daily_matches add column if not exists winner text;
+alter table tennis_daily_matches add column if not exists team1 jsonb;
+alter table tennis_daily_matches add column if not exists team2 jsonb;
+alter table tennis_daily_matches add column if not exists removed boolean not null default false;
+alter table tennis_daily_matches add column if not exists last_seen_at timestamptz;
+
+-- Rows from before the stable key: derive it the way matchKey() does (date + '_' + H2H slug)
+update tennis_daily_matches
+   set match_key = match_date::text || '_' || substring(h2h_url from '/h2h/([^?#]+?)/?(?:[?#].*)?$')
+ where match_key is null and h2h_url is not null;
+
+-- upsertDailyMatches: onConflict 'match_key'. The old delete-and-insert flow never left
+-- two rows per key, but check `select match_key from tennis_daily_matches group by 1 having count(*) > 1` first.
+create unique index if not exists tennis_daily_matches_match_key_key on tennis_daily_matches (match_key);
+create index if not exists tennis_daily_matches_date_idx on tennis_daily_matches (match_date) where not removed;
+create index if not exists tennis_daily_matches_h2h_url_idx on tennis_daily_matches (h2h_url);
+
+-- Append-only odds history, one row per match per run
+create table if not exists tennis_odds_snapshots (
+  id bigint generated by default as identity primary key,
+  match_key text not null,
+  match_date date not null,
+  h2h_url text not null,
+  scraped_at timestamptz not null,
+  run_id uuid,
+  status text not null,
+  player1_odds numeric,
+  player2_odds numeric,
+  player1_opening_odds numeric,
+  player2_opening_odds numeric,
+  player1_odds_move numeric,
+  player2_odds_move numeric
+);
+create index if not exists tennis_odds_snapshots_match_key_idx on tennis_odds_snapshots (match_key, scraped_at);
+
+-- Latest snapshot per match, with the opening odds from its first priced snapshot
+-- (recordOddsSnapshots reads this instead of the whole history)
+create or replace view tennis_odds_latest as
+select distinct on (s.match_key)
+  s.match_key,
+  s.scraped_at,
+  s.player1_odds,
+  s.player2_odds,
+  (select o.player1_odds from tennis_odds_snapshots o
+    where o.match_key = s.match_key and o.player1_odds is not null
+    order by o.scraped_at, o.id limit 1) as player1_opening_odds,
+  (select o.player2_odds from tennis_odds_snapshots o
+    where o.match_key = s.match_key and o.player2_odds is not null
+    order by o.scraped_at, o.id limit 1) as player2_opening_odds
+from tennis_odds_snapshots s
+order by s.match_key, s.scraped_at desc, s.id desc;
+
+-- Append-only in-play states from live polling
+create table if not exists tennis_live_states (
+  id bigint generated by default as identity primary key,
+  match_key text not null,
+  match_date date not null,
+  scraped_at timestamptz not null,
+  run_id uuid,
+  server text check (server in ('player1', 'player2')),
+  current_set integer not null,
+  set_scores jsonb not null,
+  game_score jsonb
+);
+create index if not exists tennis_live_states_match_key_idx on tennis_live_states (match_key, scraped_at);
+
+-- ─── H2H ─────────────────────────────────────────────────────────────────────
+
+create table if not exists tennis_h2h (
+  h2h_key text primary key
+);
+alter table tennis_h2h add column if not exists player1_id text;
+alter table tennis_h2h add column if not exists player2_id text;
+alter table tennis_h2h add column if not exists player1 text;
+alter table tennis_h2h add column if not exists player2 text;
+alter table tennis_h2h add column if not exists category text not null default 'Singles';
+alter table tennis_h2h add column if not exists p1_rank integer;
+alter table tennis_h2h add column if not exists p2_rank integer;
+alter table tennis_h2h add column if not exists player1_wins integer;
+alter table tennis_h2h add column if not exists player2_wins integer;
+alter table tennis_h2h add column if not exists player1_sets integer;
+alter table tennis_h2h add column if not exists player2_sets integer;
+alter table tennis_h2h add column if not exists p1_calendar_year_win_pct numeric;
+alter table tennis_h2h add column if not exists p1_calendar_year_record text;
+alter table tennis_h2h add column if not exists p2_calendar_year_win_pct numeric;
+alter table tennis_h2h add column if not exists p2_calendar_year_record text;
+alter table tennis_h2h add column if not exists p1_last_12m_win_pct numeric;
+alter table tennis_h2h add column if not exists p1_last_12m_record text;
+alter table tennis_h2h add column if not exists p2_last_12m_win_pct numeric;
+alter table tennis_h2h add column if not exists p2_last_12m_record text;
+alter table tennis_h2h add column if not exists match_history jsonb not null default '[]'::jsonb;
+alter table tennis_h2h add column if not exists p1_match_wins_pct numeric;
+alter table tennis_h2h add column if not exists p2_match_wins_pct numeric;
+alter table tennis_h2h add column if not exists p1_straight_sets_pct numeric;
+alter table tennis_h2h add column if not exists p2_straight_sets_pct numeric;
+alter table tennis_h2h add column if not exists p1_wins_from_behind_pct numeric;
+alter table tennis_h2h add column if not exists p2_wins_from_behind_pct numeric;
+alter table tennis_h2h add column if not exists p1_set1_win_pct numeric;
+alter table tennis_h2h add column if not exists p2_set1_win_pct numeric;
+alter table tennis_h2h add column if not exists p1_set2_win_pct numeric;
+alter table tennis_h2h add column if not exists p2_set2_win_pct numeric;
+alter table tennis_h2h add column if not exists p1_set3_win_pct numeric;
+alter table tennis_h2h add column if not exists p2_set3_win_pct numeric;
+alter table tennis_h2h add column if not exists p1_aces_per_match numeric;
+alter table tennis_h2h add column if not exists p2_aces_per_match numeric;
+alter table tennis_h2h add column if not exists aces_match_total numeric;
+alter table tennis_h2h add column if not exists p1_double_faults_per_match numeric;
+alter table tennis_h2h add column if not exists p2_double_faults_per_match numeric;
+alter table tennis_h2h add column if not exists double_faults_match_total numeric;
+alter table tennis_h2h add column if not exists p1_breaks_per_match numeric;
+alter table tennis_h2h add column if not exists p2_breaks_per_match numeric;
+alter table tennis_h2h add column if not exists breaks_match_total numeric;
+alter table tennis_h2h add column if not exists p1_tiebreaks_per_match numeric;
+alter table tennis_h2h add column if not exists p2_tiebreaks_per_match numeric;
+alter table tennis_h2h add column if not exists tiebreaks_average numeric;
+alter table tennis_h2h add column if not exists p1_avg_games_per_set numeric;
+alter table tennis_h2h add column if not exists p2_avg_games_per_set numeric;
+alter table tennis_h2h add column if not exists avg_games_per_set numeric;
+alter table tennis_h2h add column if not exists games_over_20_5_pct numeric;
+alter table tennis_h2h add column if not exists games_over_21_5_pct numeric;
+alter table tennis_h2h add column if not exists games_over_22_5_pct numeric;
+alter table tennis_h2h add column if not exists games_over_23_5_pct numeric;
+alter table tennis_h2h add column if not exists games_over_24_5_pct numeric;
+alter table tennis_h2h add column if not exists games_ladder jsonb not null default '{}'::jsonb;
+alter table tennis_h2h add column if not exists comparison_stats jsonb;
+alter table tennis_h2h add column if not exists run_id uuid;
+alter table tennis_h2h add column if not exists updated_at timestamptz not null default now();
+
+-- One row per period tab (calendar_year, last_12m, hard, clay, …) of each H2H page
+create table if not exists tennis_h2h_periods (
+  h2h_key text not null,
+  period text not null,
+  run_id uuid,
+  updated_at timestamptz not null default now(),
+  primary key (h2h_key, period)
+);
+alter table tennis_h2h_periods add column if not exists p1_match_wins_pct numeric;
+alter table tennis_h2h_periods add column if not exists p2_match_wins_pct numeric;
+alter table tennis_h2h_periods add column if not exists p1_straight_sets_pct numeric;
+alter table tennis_h2h_periods add column if not exists p2_straight_sets_pct numeric;
+alter table tennis_h2h_periods add column if not exists p1_wins_from_behind_pct numeric;
+alter table tennis_h2h_periods add column if not exists p2_wins_from_behind_pct numeric;
+alter table tennis_h2h_periods add column if not exists p1_set1_win_pct numeric;
+alter table tennis_h2h_periods add column if not exists p2_set1_win_pct numeric;
+alter table tennis_h2h_periods add column if not exists p1_set2_win_pct numeric;
+alter table tennis_h2h_periods add column if not exists p2_set2_win_pct numeric;
+alter table tennis_h2h_periods add column if not exists p1_set3_win_pct numeric;
+alter table tennis_h2h_periods add column if not exists p2_set3_win_pct numeric;
+alter table tennis_h2h_periods add column if not exists p1_aces_per_match numeric;
+alter table tennis_h2h_periods add column if not exists p2_aces_per_match numeric;
+alter table tennis_h2h_periods add column if not exists aces_match_total numeric;
+alter table tennis_h2h_periods add column if not exists p1_double_faults_per_match numeric;
+alter table tennis_h2h_periods add column if not exists p2_double_faults_per_match numeric;
+alter table tennis_h2h_periods add column if not exists double_faults_match_total numeric;
+alter table tennis_h2h_periods add column if not exists p1_breaks_per_match numeric;
+alter table tennis_h2h_periods add column if not exists p2_breaks_per_match numeric;
+alter table tennis_h2h_periods add column if not exists breaks_match_total numeric;
+alter table tennis_h2h_periods add column if not exists p1_tiebreaks_per_match numeric;
+alter table tennis_h2h_periods add column if not exists p2_tiebreaks_per_match numeric;
+alter table tennis_h2h_periods add column if not exists tiebreaks_average numeric;
+alter table tennis_h2h_periods add column if not exists p1_avg_games_per_set numeric;
+alter table tennis_h2h_periods add column if not exists p2_avg_games_per_set numeric;
+alter table tennis_h2h_periods add column if not exists avg_games_per_set numeric;
+alter table tennis_h2h_periods add column if not exists games_over_20_5_pct numeric;
+alter table tennis_h2h_periods add column if not exists games_over_21_5_pct numeric;
+alter table tennis_h2h_periods add column if not exists games_over_22_5_pct numeric;
+alter table tennis_h2h_periods add column if not exists games_over_23_5_pct numeric;
+alter table tennis_h2h_periods add column if not exists games_over_24_5_pct numeric;
+alter table tennis_h2h_periods add column if not exists games_ladder jsonb not null default '{}'::jsonb;
+
+-- ─── Quarantine, alerts, backfill ────────────────────────────────────────────
+
+-- Rows that failed validation.ts; the latest failing version per row
+create table if not exists tennis_quarantine (
+  kind text not null check (kind in ('h2h', 'daily_match')),
+  row_key text not null,
+  reasons text[] not null,
+  payload jsonb not null,
+  run_id uuid,
+  quarantined_at timestamptz not null default now(),
+  primary key (kind, row_key)
+);
+
+-- When each alert dedup key last went out (notifier.ts cooldown)
+create table if not exists tennis_alerts (
+  alert_key text primary key,
+  kind text not null,
+  title text not null,
+  message text not null,
+  details jsonb not null default '{}'::jsonb,
+  run_id uuid,
+  sent_at timestamptz not null
+);
+
+create table if not exists tennis_backfill_progress (
+  match_date date primary key,
+  status text not null check (status in ('pending', 'homepage_done', 'complete', 'failed')),
+  matches_found integer not null default 0,
+  h2h_total integer not null default 0,
+  h2h_done_keys text[] not null default '{}',
+  h2h_failed_keys text[] not null default '{}',
+  error text,
+  updated_at timestamptz not null default now()
+);
+alter table tennis_backfill_progress add column if not exists h2h_failed_keys text[] not null default '{}';
@@ -0,0 +1,220 @@
+/**
+ * Historical Backfill
+ *
+ * Scrapes the homepage and H2H pages for every day in a date range.
+ * Progress is stored per day in tennis_backfill_progress, so a crashed run
+ * resumes where it stopped: complete days are skipped, and for partial days
+ * only the H2H pages that are still missing get scraped. Pages that can't succeed
+ * (not-found, invalid) are kept in h2hFailedKeys and not tried again.
+ *
+ * The session is re-validated after a run of blocked / premium-less pages and
+ * rotated to the next healthy account, as in the daily run; the backfill stops
+ * when no working account is left.
+ */
+
+import TennisStatsScraper from './scraper';
+import { TennisStorage } from './storage';
+import { filterSupportedMatches } from './tournaments';
+import { h2hSlug } from './parsers';
+import { classifyError, PERMANENT_KINDS, ScrapeErrorKind, withRetry } from './errors';
+import { blockedAlert, getNotifier } from './notifier';
+import { SessionManager } from './sessions';
+import { BackfillProgress, DailyMatch } from './types';
+
+export interface BackfillOptions {
+  from: string;              // YYYY-MM-DD, inclusive
+  to: string;                // YYYY-MM-DD, inclusive
+  rescrapePartial?: boolean; // start partially-complete days over instead of resuming them
+  delayMs?: number;          // delay between page requests
+  filterMatches?: <T extends DailyMatch>(matches: T[]) => T[]; // which saved matches get H2H pages
+}
+
+export interface BackfillSummary {
+  daysCompleted: number;
+  daysSkipped: number;
+  daysIncomplete: number;
+  sessionLost: boolean;      // stopped early: no working account left
+}
+
+/** Consecutive blocked/auth failures before the session is re-validated */
+const FAILURES_BEFORE_CHECK = 3;
+
+function sleep(ms: number) {
+  return new Promise(r => setTimeout(r, ms));
+}
+
+/** Re-validates (and maybe rotates) the session after a run of account-level failures */
+class SessionWatch {
+  private consecutive = 0;
+  lost = false;
+
+  constructor(private session: SessionManager) {}
+
+  succeeded(): void {
+    this.consecutive = 0;
+  }
+
+  async failed(kind: ScrapeErrorKind): Promise<void> {
+    if (kind !== 'blocked' && kind !== 'auth') return;
+    if (++this.consecutive < FAILURES_BEFORE_CHECK) return;
+
+    this.consecutive = 0;
+    const generation = this.session.generation;
+    if (!await this.session.handleBlocked()) {
+      this.lost = true;
+    } else if (this.session.generation !== generation) {
+      console.log('   ↻ Switched to ' + this.session.username);
+    }
+  }
+}
+
+/** Every YYYY-MM-DD from `from` to `to`, inclusive */
+export function dateRange(from: string, to: string): string[] {
+  const dates: string[] = [];
+  const d = new Date(from + 'T00:00:00Z');
+  const end = new Date(to + 'T00:00:00Z');
+  if (isNaN(d.getTime()) || isNaN(end.getTime())) {
+    throw new Error(`Invalid backfill range: ${from}..${to}`);
+  }
+
+  while (d <= end) {
+    dates.push(d.toISOString().split('T')[0]);
+    d.setUTCDate(d.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+async function backfillDay(
+  scraper: TennisStatsScraper,
+  db: TennisStorage,
+  session: SessionManager,
+  watch: SessionWatch,
+  progress: BackfillProgress,
+  options: BackfillOptions,
+  delayMs: number
+): Promise<BackfillProgress> {
+  const { date } = progress;
+
+  const matches = await scraper.scrapeDailyMatches(date, session.cookies);
+  const supportedAll = filterSupportedMatches(matches, date);
+  // The whole day is saved (anything left out would be flagged removed); the filter only picks H2H pages
+  const supported = options.filterMatches ? options.filterMatches(supportedAll) : supportedAll;
+
+  // An empty page is usually a block, not a quiet day — leave it for the next run
+  if (matches.length === 0) {
+    return { ...progress, status: 'failed', error: 'homepage returned no matches' };
+  }
+
+  await db.upsertDailyMatches(supportedAll, date);
+
+  const pending = new Map<string, (typeof supported)[number]>();
+  for (const m of supported) {
+    const key = h2hSlug(m.h2hUrl);
+    if (key && !progress.h2hDoneKeys.includes(key) && !progress.h2hFailedKeys.includes(key)) pending.set(key, m);
+  }
+
+  progress = {
+    ...progress,
+    status: 'homepage_done',
+    matchesFound: supportedAll.length,
+    h2hTotal: progress.h2hDoneKeys.length + progress.h2hFailedKeys.length + pending.size,
+    error: null,
+  };
+  await db.saveBackfillProgress(progress);
+
+  let missing = 0;
+  for (const [key, match] of pending) {
+    if (watch.lost) {
+      missing++;
+      continue;
+    }
+    await sleep(delayMs);
+    try {
+      const h2h = await withRetry(() => scraper.scrapeH2HWithCookies(match.h2hUrl, session.cookies, match.surface));
+      await withRetry(() => db.upsertH2H(h2h));
+      watch.succeeded();
+      progress = { ...progress, h2hDoneKeys: [...progress.h2hDoneKeys, key] };
+      await db.saveBackfillProgress(progress);
+    } catch (raw) {
+      const err = classifyError(raw, match.h2hUrl);
+      console.log('   ✗ ' + date + ' ' + key + ' — ' + err.kind + ': ' + err.message);
+      if (PERMANENT_KINDS.includes(err.kind)) {
+        progress = { ...progress, h2hFailedKeys: [...progress.h2hFailedKeys, key] };
+        await db.saveBackfillProgress(progress);
+      } else {
+        missing++;
+        await watch.failed(err.kind);
+      }
+    }
+  }
+
+  if (missing > 0) {
+    return { ...progress, status: 'homepage_done', error: missing + ' H2H pages missing' };
+  }
+  const unavailable = progress.h2hFailedKeys.length;
+  return { ...progress, status: 'complete', error: unavailable > 0 ? unavailable + ' H2H pages unavailable' : null };
+}
+
+/**
+ * Backfill a date range, one day at a time, oldest first.
+ */
+export async function runBackfill(
+  scraper: TennisStatsScraper,
+  db: TennisStorage,
+  session: SessionManager,
+  options: BackfillOptions
+): Promise<BackfillSummary> {
+  const delayMs = options.delayMs ?? 3000;
+  const summary: BackfillSummary = { daysCompleted: 0, daysSkipped: 0, daysIncomplete: 0, sessionLost: false };
+  const watch = new SessionWatch(session);
+  const dates = dateRange(options.from, options.to);
+
+  console.log('\n📚 Backfill: ' + dates.length + ' days (' + options.from + ' → ' + options.to + ')');
+
+  for (const date of dates) {
+    const existing = await db.getBackfillProgress(date);
+
+    if (existing?.status === 'complete') {
+      console.log('   ⏭ ' + date + ' — already complete');
+      summary.daysSkipped++;
+      continue;
+    }
+
+    const fresh: BackfillProgress = {
+      date, status: 'pending', matchesFound: 0, h2hTotal: 0, h2hDoneKeys: [], h2hFailedKeys: [], error: null,
+    };
+    const start = existing && !options.rescrapePartial ? existing : fresh;
+    if (start.h2hDoneKeys.length > 0) {
+      console.log('   ↻ ' + date + ' — resuming (' + start.h2hDoneKeys.length + '/' + start.h2hTotal + ' H2H done)');
+    }
+
+    let result: BackfillProgress;
+    try {
+      result = await backfillDay(scraper, db, session, watch, start, options, delayMs);
+    } catch (err: any) {
+      result = { ...start, status: 'failed', error: err.message || String(err) };
+      const scrapeErr = classifyError(err);
+      if (scrapeErr.kind === 'blocked') await getNotifier().notify(blockedAlert(scrapeErr.url || date, 'backfill'));
+      await watch.failed(scrapeErr.kind);
+    }
+    await db.saveBackfillProgress(result);
+
+    if (result.status === 'complete') {
+      summary.daysCompleted++;
+      console.log('   ✓ ' + date + ' — ' + result.matchesFound + ' matches, ' + result.h2hDoneKeys.length + ' H2H' +
+        (result.h2hFailedKeys.length > 0 ? ', ' + result.h2hFailedKeys.length + ' unavailable' : ''));
+    } else {
+      summary.daysIncomplete++;
+      console.log('   ⚠ ' + date + ' — ' + result.status + ': ' + result.error);
+    }
+
+    if (watch.lost) {
+      console.error('   ❌ No working premium account left — stopping the backfill');
+      summary.sessionLost = true;
+      break;
+    }
+    await sleep(delayMs);
+  }
+
+  return summary;
+}
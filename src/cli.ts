@@ -0,0 +1,195 @@
+/**
+ * Command-line parsing for the runner.
+ *
+ *   node dist/runner.js [command] [args] [flags]
+ *
+ * Kept dependency-free: flags are `--name value` or `--name=value`, booleans are bare `--name`.
+ */
+
+import { isValidTimeZone } from './schedule';
+import { StorageBackend, STORAGE_BACKENDS } from './storage';
+
+export type CliCommandName = 'daily' | 'live' | 'h2h' | 'backfill' | 'tournaments' | 'results' | 'help';
+
+export interface CliOptions {
+  date?: string;             // YYYY-MM-DD; homepage date for daily/results, match date for tournaments check
+  from?: string;             // backfill start, inclusive
+  to?: string;               // backfill end, inclusive
+  tiers?: string[];          // only these tournament tiers, e.g. "Grand Slam,Masters 1000"
+  gender?: 'Men' | 'Women';
+  category?: 'Singles' | 'Doubles';
+  surface?: 'Hard' | 'Clay' | 'Grass';
+  concurrency: number;       // parallel H2H pages
+  delayMs: number;           // delay between page requests
+  settleMs: number;          // extra wait after an H2H page renders
+  h2hTtlHours?: number;      // override H2H_TTL_HOURS for this run
+  forceH2H: boolean;         // re-scrape every H2H page, ignoring freshness
+  dryRun: boolean;           // print writes instead of sending them to Supabase
+  rescrapePartial: boolean;  // backfill: start partial days over
+  cookiesFile?: string;      // read cookies from a JSON file instead of tennisstats_accounts
+  timeZone?: string;         // timezone the site renders start times in (IANA name)
+  storage?: StorageBackend;  // where rows go; default $STORAGE_BACKEND or supabase
+  storagePath?: string;      // SQLite file / JSON-lines directory for the local backends
+}
+
+export interface CliCommand {
+  command: CliCommandName;
+  args: string[];            // positional arguments after the command
+  options: CliOptions;
+}
+
+export const USAGE = `Usage: node dist/runner.js [command] [args] [flags]
+
+Commands:
+  daily                      Homepage → past days → results → H2H pages (default)
+  live                       Poll live matches and record in-play state
+  h2h <url|key>              Scrape one H2H page
+  backfill --from D --to D   Scrape every day in a range, resuming from stored progress
+  tournaments check <name>   Show how a homepage tournament name is matched
+  results                    Update final scores for --date (default: yesterday)
+  help                       Show this message
+
+Flags:
+  --date YYYY-MM-DD          Homepage / match date
+  --from, --to YYYY-MM-DD    Backfill range
+  --tiers "A,B"              Only these tiers (e.g. "Grand Slam,Masters 1000")
+  --gender Men|Women         Only this draw
+  --category Singles|Doubles Only singles or only doubles (default both)
+                             (these three pick H2H pages and live states; whole days are still saved)
+  --surface Hard|Clay|Grass  Surface for h2h
+  --concurrency N            Parallel H2H pages (default 1)
+  --delay MS                 Delay between page requests (default 3000; H2H adapts from here)
+  --settle MS                Extra wait after an H2H page renders (default 2000)
+  --h2h-ttl HOURS            Skip pairs scraped within this many hours (default $H2H_TTL_HOURS or 12)
+  --force-h2h                Re-scrape every H2H page, ignoring --h2h-ttl
+  --dry-run                  Print what would be written instead of writing
+  --rescrape-partial         Backfill: start partially-complete days over
+  --cookies-file PATH        Load cookies from a JSON file
+  --storage supabase|sqlite|jsonl
+                             Where to write (default $STORAGE_BACKEND or supabase)
+  --storage-path PATH        SQLite file or JSON-lines directory (default $STORAGE_PATH,
+                             else tennisstats.db / data)
+  --timezone ZONE            Site timezone for start times, e.g. Europe/London
+                             (default $TENNISSTATS_TIMEZONE, else the cookie's, else Europe/London)
+`;
+
+const COMMANDS: CliCommandName[] = ['daily', 'live', 'h2h', 'backfill', 'tournaments', 'results', 'help'];
+const BOOLEAN_FLAGS = ['dry-run', 'rescrape-partial', 'force-h2h', 'help'];
+const VALUE_FLAGS = ['date', 'from', 'to', 'tiers', 'gender', 'category', 'surface', 'concurrency', 'delay', 'settle', 'h2h-ttl', 'cookies-file', 'timezone', 'storage', 'storage-path'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function requireDate(flag: string, value: string | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  // The pattern alone lets through 2026-13-45; a real date survives the round trip
+  const parsed = new Date(value + 'T00:00:00Z');
+  if (!DATE_PATTERN.test(value) || isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== value) {
+    throw new Error(`--${flag} must be a real YYYY-MM-DD date, got "${value}"`);
+  }
+  return value;
+}
+
+/** Checked --from / --to pair, either may be absent. Also used for backfill's positional dates. */
+export function requireDateRange(from: string | undefined, to: string | undefined): { from?: string; to?: string } {
+  const start = requireDate('from', from);
+  const end = requireDate('to', to);
+  if (start && end && start > end) throw new Error(`--from ${start} is after --to ${end}`);
+  return { from: start, to: end };
+}
+
+function requireCount(flag: string, value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback;
+  const n = parseInt(value, 10);
+  if (isNaN(n) || n < 0 || String(n) !== value.trim()) throw new Error(`--${flag} must be a number, got "${value}"`);
+  return n;
+}
+
+function capitalise(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1).toLowerCase();
+}
+
+/**
+ * Parse process.argv.slice(2). Throws with a readable message on bad input.
+ */
+export function parseCli(argv: string[]): CliCommand {
+  const flags = new Map<string, string>();
+  const positional: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+
+    const eq = arg.indexOf('=');
+    const name = eq >= 0 ? arg.slice(2, eq) : arg.slice(2);
+    if (!BOOLEAN_FLAGS.includes(name) && !VALUE_FLAGS.includes(name)) throw new Error(`Unknown flag --${name}`);
+    if (eq >= 0) {
+      flags.set(name, arg.slice(eq + 1));
+    } else if (BOOLEAN_FLAGS.includes(name)) {
+      flags.set(name, 'true');
+    } else {
+      const value = argv[i + 1];
+      if (value === undefined || value.startsWith('--')) throw new Error(`--${name} needs a value`);
+      flags.set(name, value);
+      i++;
+    }
+  }
+
+  const first = positional[0];
+  let command: CliCommandName = 'daily';
+  if (first !== undefined) {
+    if (!COMMANDS.includes(first as CliCommandName)) throw new Error(`Unknown command "${first}"`);
+    command = first as CliCommandName;
+    positional.shift();
+  }
+  if (flags.has('help')) command = 'help';
+
+  const gender = flags.get('gender');
+  if (gender && !['men', 'women'].includes(gender.toLowerCase())) {
+    throw new Error(`--gender must be Men or Women, got "${gender}"`);
+  }
+  const category = flags.get('category');
+  if (category && !['singles', 'doubles'].includes(category.toLowerCase())) {
+    throw new Error(`--category must be Singles or Doubles, got "${category}"`);
+  }
+  const surface = flags.get('surface');
+  if (surface && !['hard', 'clay', 'grass'].includes(surface.toLowerCase())) {
+    throw new Error(`--surface must be Hard, Clay or Grass, got "${surface}"`);
+  }
+
+  const timeZone = flags.get('timezone');
+  if (timeZone && !isValidTimeZone(timeZone)) {
+    throw new Error(`--timezone must be an IANA zone like Europe/London, got "${timeZone}"`);
+  }
+
+  const storage = flags.get('storage');
+  if (storage && !STORAGE_BACKENDS.includes(storage.toLowerCase() as StorageBackend)) {
+    throw new Error(`--storage must be ${STORAGE_BACKENDS.join(', ')}, got "${storage}"`);
+  }
+
+  const range = requireDateRange(flags.get('from'), flags.get('to'));
+
+  const options: CliOptions = {
+    date: requireDate('date', flags.get('date')),
+    from: range.from,
+    to: range.to,
+    tiers: flags.get('tiers')?.split(',').map(t => t.trim()).filter(Boolean),
+    gender: gender ? capitalise(gender) as CliOptions['gender'] : undefined,
+    category: category ? capitalise(category) as CliOptions['category'] : undefined,
+    surface: surface ? capitalise(surface) as CliOptions['surface'] : undefined,
+    concurrency: Math.max(1, requireCount('concurrency', flags.get('concurrency'), 1)),
+    delayMs: Math.max(1, requireCount('delay', flags.get('delay'), 3000)),
+    settleMs: requireCount('settle', flags.get('settle'), 2000),
+    h2hTtlHours: flags.has('h2h-ttl') ? requireCount('h2h-ttl', flags.get('h2h-ttl'), 0) : undefined,
+    forceH2H: flags.get('force-h2h') === 'true',
+    dryRun: flags.get('dry-run') === 'true',
+    rescrapePartial: flags.get('rescrape-partial') === 'true',
+    cookiesFile: flags.get('cookies-file'),
+    timeZone,
+    storage: storage ? storage.toLowerCase() as StorageBackend : undefined,
+    storagePath: flags.get('storage-path'),
+  };
+
+  return { command, args: positional, options };
+}
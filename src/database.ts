@@ -1,154 +1,468 @@
 /**
  * Supabase Database Layer for TennisStats Scraper v2
  * Stores all H2H detail data in structured columns
+ *
+ * Tables, columns and the unique keys the upserts rely on: sql/schema.sql
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { DailyMatch, H2HData } from './scraper';
+import { BackfillProgress, DailyMatch, H2HData, Player, TennisStatsAccount } from './types';
+import { h2hSlug, matchKey } from './parsers';
+import { H2HCacheState } from './freshness';
+import { ScrapeError } from './errors';
+import { ScrapeRunRecord } from './runledger';
+import { getPlayerRegistry } from './players';
+import { TournamentInfo } from './tournaments';
+import { Alert } from './notifier';
+import { QuarantineRecord, logQuarantine, quarantineError, screenH2H, screenMatches, validateDailyMatch } from './validation';
+import {
+  TennisStorage,
+  accountFailureColumns,
+  accountsFromRows,
+  accountSuccessColumns,
+  alertColumns,
+  backfillColumns,
+  backfillFromRow,
+  dailyMatchColumns,
+  h2hColumns,
+  h2hPeriodRows,
+  liveStateRows,
+  matchResultColumns,
+  oddsSnapshotRows,
+  playerColumns,
+  playerFromRow,
+  quarantineColumns,
+  runColumns,
+  tournamentColumns,
+  tournamentFromRow,
+} from './storage';
 
-export class TennisStatsDB {
+export class TennisStatsDB implements TennisStorage {
   private supabase: SupabaseClient;
+  private runId: string | null = null;
 
   constructor(url: string, key: string) {
     this.supabase = createClient(url, key);
   }
 
+  // ─── Run Ledger ────────────────────────────────────────────────────────
+
+  /** Insert the scrape_runs row; rows written from now on carry its id in run_id */
+  async startRun(run: ScrapeRunRecord): Promise<void> {
+    this.runId = run.id;
+    const { error } = await this.supabase
+      .from('scrape_runs')
+      .insert(runColumns(run));
+
+    if (error) {
+      console.error('[DB] Failed to start scrape run:', error.message);
+    }
+  }
+
+  async finishRun(run: ScrapeRunRecord): Promise<void> {
+    const { error } = await this.supabase
+      .from('scrape_runs')
+      .update(runColumns(run))
+      .eq('id', run.id);
+
+    if (error) {
+      console.error('[DB] Failed to finish scrape run:', error.message);
+    }
+  }
+
   // ─── Account / Cookies ─────────────────────────────────────────────────
 
-  async getActiveAccount(): Promise<{ username: string; session_cookies: string } | null> {
+  /** Active accounts with cookies, healthiest and most recently successful first */
+  async getActiveAccounts(): Promise<TennisStatsAccount[]> {
     const { data, error } = await this.supabase
       .from('tennisstats_accounts')
-      .select('username, session_cookies')
+      .select('username, session_cookies, health_status, last_success_at, last_failure_at, failure_count')
       .eq('is_active', true)
       .not('session_cookies', 'is', null)
-      .limit(1)
-      .single();
+      .order('last_success_at', { ascending: false, nullsFirst: false });
+
+    if (error || !data) {
+      console.error('[DB] Failed to load accounts:', error?.message);
+      return [];
+    }
+    return accountsFromRows(data);
+  }
+
+  async recordAccountSuccess(account: TennisStatsAccount): Promise<void> {
+    const { error } = await this.supabase
+      .from('tennisstats_accounts')
+      .update(accountSuccessColumns())
+      .eq('username', account.username);
+
+    if (error) {
+      console.error('[DB] Failed to record success for ' + account.username + ':', error.message);
+    }
+  }
+
+  /** Count a failure; `deactivate` takes the account out of rotation (is_active = false) */
+  async recordAccountFailure(account: TennisStatsAccount, reason: string, deactivate: boolean): Promise<void> {
+    const { error } = await this.supabase
+      .from('tennisstats_accounts')
+      .update(accountFailureColumns(account, reason, deactivate))
+      .eq('username', account.username);
+
+    if (error) {
+      console.error('[DB] Failed to record failure for ' + account.username + ':', error.message);
+    }
+  }
+
+  // ─── Player Registry ───────────────────────────────────────────────────
+
+  async getPlayers(): Promise<Player[]> {
+    const { data, error } = await this.supabase
+      .from('tennis_players')
+      .select('id, name, aliases, gender, nationality');
+
+    if (error || !data) {
+      console.error('[DB] Failed to load players:', error?.message);
+      return [];
+    }
+    return data.map(playerFromRow);
+  }
+
+  /** Upsert new players / new aliases. Nationality is maintained by hand, so it's never sent. */
+  async upsertPlayers(players: Player[]): Promise<void> {
+    if (players.length === 0) return;
+    const { error } = await this.supabase
+      .from('tennis_players')
+      .upsert(players.map(playerColumns), { onConflict: 'id' });
+
+    if (error) {
+      console.error('[DB] Failed to upsert players:', error.message);
+    }
+  }
+
+  // ─── Tournament Registry ───────────────────────────────────────────────
+
+  /** Active tournaments from `tennis_tournaments`; null when the table can't be read */
+  async getTournaments(): Promise<TournamentInfo[] | null> {
+    const { data, error } = await this.supabase
+      .from('tennis_tournaments')
+      .select('name, tier, gender, keywords, exclude_keywords, surface, location, start_date, end_date, draw_size')
+      .eq('is_active', true);
 
     if (error || !data) {
-      console.error('[DB] Failed to load account:', error?.message);
+      console.error('[DB] Failed to load tournaments:', error?.message);
       return null;
     }
-    return data;
+
+    return data.map(tournamentFromRow);
+  }
+
+  async seedTournaments(tournaments: TournamentInfo[]): Promise<void> {
+    const rows = tournaments.map(tournamentColumns);
+
+    const { error } = await this.supabase
+      .from('tennis_tournaments')
+      .upsert(rows, { onConflict: 'name,gender' });
+
+    if (error) {
+      console.error('[DB] Failed to seed tournaments:', error.message);
+    } else {
+      console.log(`[DB] Seeded ${rows.length} tournaments`);
+    }
   }
 
   // ─── Daily Matches ─────────────────────────────────────────────────────
 
+  /**
+   * Upsert the day's matches on their stable match_key (date + H2H slug).
+   * The upsert is a single statement, so a failure never leaves the day half-written.
+   * Matches that dropped off the page are flagged `removed` rather than deleted;
+   * ones that fail validation are quarantined (and don't count as removed).
+   */
   async upsertDailyMatches(matches: DailyMatch[], date: string): Promise<void> {
-    await this.supabase
-      .from('tennis_daily_matches')
-      .delete()
-      .eq('match_date', date);
-
-    const rows = matches.map(m => ({
-      match_date: date,
-      tournament: m.tournament || '',
-      tournament_tier: m.tournamentTier || '',
-      tournament_official_name: m.tournamentOfficialName || '',
-      country: m.country || '',
-      gender: m.gender || 'Men',
-      category: m.category || 'Singles',
-      surface: m.surface || 'Hard',
-      round: m.round || 'Main',
-      player1_name: m.player1.name,
-      player1_ranking: m.player1.ranking,
-      player1_form: m.player1.formScore,
-      player1_odds: m.player1.odds,
-      player2_name: m.player2.name,
-      player2_ranking: m.player2.ranking,
-      player2_form: m.player2.formScore,
-      player2_odds: m.player2.odds,
-      scheduled_time: m.scheduledTime || null,
-      status: m.status || 'upcoming',
-      h2h_url: m.h2hUrl || null,
-    }));
+    const seenAt = new Date().toISOString();
+    const { valid, rejected } = screenMatches(matches.filter(m => m.h2hUrl), date);
+    await this.quarantine(rejected);
+    const rows = valid.map(m => dailyMatchColumns(m, date, this.runId, seenAt));
+
+    // An empty scrape (blocked page, quiet day) must not flag the whole day as removed
+    if (rows.length === 0) {
+      console.log(`[DB] No matches to save for ${date}`);
+      return;
+    }
 
+    await this.upsertPlayers(getPlayerRegistry().takeChanged());
     const { error } = await this.supabase
       .from('tennis_daily_matches')
+      .upsert(rows, { onConflict: 'match_key' });
+
+    if (error) {
+      console.error('[DB] Failed to upsert matches:', error.message);
+      return;
+    }
+    console.log(`[DB] Upserted ${rows.length} matches for ${date}`);
+
+    const seen = [...rows.map(r => r.match_key), ...rejected.map(r => r.key)];
+    const keys = seen.map(k => '"' + k.replace(/"/g, '\\"') + '"').join(',');
+    const { error: removeError } = await this.supabase
+      .from('tennis_daily_matches')
+      .update({ removed: true })
+      .eq('match_date', date)
+      .eq('removed', false)
+      .not('match_key', 'in', `(${keys})`);
+
+    if (removeError) {
+      console.error('[DB] Failed to flag removed matches:', removeError.message);
+    }
+  }
+
+  /**
+   * Write final scores onto rows that already exist (no inserts), e.g. when
+   * revisiting a past date whose matches finished after the last run.
+   */
+  async updateMatchResults(matches: DailyMatch[], date: string): Promise<number> {
+    const finished = matches.filter(m => m.status === 'finished' && m.score && m.h2hUrl);
+    let updated = 0;
+
+    for (const m of finished) {
+      const { data, error } = await this.supabase
+        .from('tennis_daily_matches')
+        .update(matchResultColumns(m, this.runId))
+        .eq('match_key', matchKey(m.h2hUrl, date))
+        .select('id');
+
+      if (error) {
+        console.error('[DB] Failed to update result ' + m.h2hUrl + ':', error.message);
+      } else if (data && data.length > 0) {
+        updated++;
+      }
+    }
+
+    await this.upsertPlayers(getPlayerRegistry().takeChanged());
+    return updated;
+  }
+
+  // ─── Odds Snapshots (append-only) ──────────────────────────────────────
+
+  /**
+   * Append one odds snapshot per match that currently shows odds (see oddsSnapshotRows).
+   * Matches quarantined by upsertDailyMatches get none.
+   */
+  async recordOddsSnapshots(matches: DailyMatch[], date: string): Promise<void> {
+    const priced = matches.filter(m =>
+      m.h2hUrl && (m.player1.odds !== null || m.player2.odds !== null) && validateDailyMatch(m).length === 0);
+    if (priced.length === 0) return;
+
+    // One row per key from the view — the full history would hit the 1000-row response cap
+    const { data: latest, error: readError } = await this.supabase
+      .from('tennis_odds_latest')
+      .select('match_key, player1_odds, player2_odds, player1_opening_odds, player2_opening_odds')
+      .in('match_key', priced.map(m => matchKey(m.h2hUrl, date)));
+
+    if (readError) {
+      console.error('[DB] Failed to load latest odds:', readError.message);
+      return;
+    }
+
+    const previous = new Map<string, any>();
+    for (const snap of latest || []) previous.set(snap.match_key, snap);
+
+    const rows = oddsSnapshotRows(priced, date, previous, this.runId);
+
+    const { error } = await this.supabase
+      .from('tennis_odds_snapshots')
       .insert(rows);
 
     if (error) {
-      console.error('[DB] Failed to insert matches:', error.message);
+      console.error('[DB] Failed to insert odds snapshots:', error.message);
     } else {
-      console.log(`[DB] Inserted ${rows.length} matches for ${date}`);
+      console.log(`[DB] Recorded ${rows.length} odds snapshots for ${date}`);
+    }
+  }
+
+  // ─── Live State ────────────────────────────────────────────────────────
+
+  /** Append a timestamped live-state row per in-play match and mirror status onto the daily row */
+  async recordLiveStates(matches: DailyMatch[], date: string): Promise<number> {
+    const rows = liveStateRows(matches, date, this.runId);
+    if (rows.length === 0) return 0;
+
+    const { error } = await this.supabase
+      .from('tennis_live_states')
+      .insert(rows);
+
+    if (error) {
+      console.error('[DB] Failed to insert live states:', error.message);
+      return 0;
+    }
+
+    const { error: statusError } = await this.supabase
+      .from('tennis_daily_matches')
+      .update({ status: 'live' })
+      .in('match_key', rows.map(r => r.match_key))
+      .eq('status', 'upcoming');
+
+    if (statusError) {
+      console.error('[DB] Failed to mark matches live:', statusError.message);
     }
+    return rows.length;
   }
 
   // ─── H2H Records (Comprehensive) ──────────────────────────────────────
 
+  /**
+   * Throws an invalid ScrapeError when the page fails validation (it's quarantined instead),
+   * a db-write one if the main row is rejected (period rows only log)
+   */
   async upsertH2H(h2h: H2HData): Promise<void> {
-    const row = {
-      h2h_key: h2h.h2hKey,
-      player1: h2h.player1,
-      player2: h2h.player2,
-      // Full Stats
-      p1_rank: h2h.p1Rank || null,
-      p2_rank: h2h.p2Rank || null,
-      player1_wins: h2h.p1H2HWins,
-      player2_wins: h2h.p2H2HWins,
-      player1_sets: h2h.p1H2HSets,
-      player2_sets: h2h.p2H2HSets,
-      p1_calendar_year_win_pct: h2h.p1CalendarYearWinPct || null,
-      p1_calendar_year_record: h2h.p1CalendarYearRecord || null,
-      p2_calendar_year_win_pct: h2h.p2CalendarYearWinPct || null,
-      p2_calendar_year_record: h2h.p2CalendarYearRecord || null,
-      p1_last_12m_win_pct: h2h.p1Last12mWinPct || null,
-      p1_last_12m_record: h2h.p1Last12mRecord || null,
-      p2_last_12m_win_pct: h2h.p2Last12mWinPct || null,
-      p2_last_12m_record: h2h.p2Last12mRecord || null,
-      // Match History
-      match_history: h2h.matchHistory,
-      // Win % Breakdown
-      p1_match_wins_pct: h2h.p1MatchWinsPct || null,
-      p2_match_wins_pct: h2h.p2MatchWinsPct || null,
-      p1_straight_sets_pct: h2h.p1StraightSetsPct || null,
-      p2_straight_sets_pct: h2h.p2StraightSetsPct || null,
-      p1_wins_from_behind_pct: h2h.p1WinsFromBehindPct || null,
-      p2_wins_from_behind_pct: h2h.p2WinsFromBehindPct || null,
-      p1_set1_win_pct: h2h.p1Set1WinPct || null,
-      p2_set1_win_pct: h2h.p2Set1WinPct || null,
-      p1_set2_win_pct: h2h.p1Set2WinPct || null,
-      p2_set2_win_pct: h2h.p2Set2WinPct || null,
-      p1_set3_win_pct: h2h.p1Set3WinPct || null,
-      p2_set3_win_pct: h2h.p2Set3WinPct || null,
-      // Serve & Return
-      p1_aces_per_match: h2h.p1AcesPerMatch || null,
-      p2_aces_per_match: h2h.p2AcesPerMatch || null,
-      aces_match_total: h2h.acesMatchTotal || null,
-      p1_double_faults_per_match: h2h.p1DoubleFaultsPerMatch || null,
-      p2_double_faults_per_match: h2h.p2DoubleFaultsPerMatch || null,
-      double_faults_match_total: h2h.doubleFaultsMatchTotal || null,
-      p1_breaks_per_match: h2h.p1BreaksPerMatch || null,
-      p2_breaks_per_match: h2h.p2BreaksPerMatch || null,
-      breaks_match_total: h2h.breaksMatchTotal || null,
-      p1_tiebreaks_per_match: h2h.p1TiebreaksPerMatch || null,
-      p2_tiebreaks_per_match: h2h.p2TiebreaksPerMatch || null,
-      tiebreaks_average: h2h.tiebreaksAverage || null,
-      // Match Total Games
-      p1_avg_games_per_set: h2h.p1AvgGamesPerSet || null,
-      p2_avg_games_per_set: h2h.p2AvgGamesPerSet || null,
-      avg_games_per_set: h2h.avgGamesPerSet || null,
-      games_over_20_5_pct: h2h.gamesOver20_5Pct || null,
-      games_over_21_5_pct: h2h.gamesOver21_5Pct || null,
-      games_over_22_5_pct: h2h.gamesOver22_5Pct || null,
-      games_over_23_5_pct: h2h.gamesOver23_5Pct || null,
-      games_over_24_5_pct: h2h.gamesOver24_5Pct || null,
-      comparison_stats: null,
-      updated_at: new Date().toISOString(),
-    };
+    const rejected = screenH2H(h2h);
+    if (rejected) {
+      await this.quarantine([rejected]);
+      throw quarantineError(rejected);
+    }
+    const row = h2hColumns(h2h, this.runId);
 
+    await this.upsertPlayers(getPlayerRegistry().takeChanged());
     const { error } = await this.supabase
       .from('tennis_h2h')
       .upsert(row, { onConflict: 'h2h_key' });
 
     if (error) {
-      console.error('[DB] Failed to upsert H2H ' + h2h.h2hKey + ':', error.message);
+      throw new ScrapeError('db-write', 'tennis_h2h upsert failed: ' + error.message, h2h.h2hKey);
+    }
+
+    await this.upsertH2HPeriods(h2h);
+  }
+
+  /** One row per (h2h_key, period), see h2hPeriodRows */
+  async upsertH2HPeriods(h2h: H2HData): Promise<void> {
+    const rows = h2hPeriodRows(h2h, this.runId);
+    if (rows.length === 0) return;
+
+    const { error } = await this.supabase
+      .from('tennis_h2h_periods')
+      .upsert(rows, { onConflict: 'h2h_key,period' });
+
+    if (error) {
+      console.error('[DB] Failed to upsert H2H periods ' + h2h.h2hKey + ':', error.message);
+    }
+  }
+
+  /**
+   * What the freshness policy needs for these H2H URLs: when each pair was last
+   * scraped, and the latest date the pair has a finished result in the daily rows.
+   */
+  async getH2HCacheState(h2hUrls: string[]): Promise<H2HCacheState> {
+    const state: H2HCacheState = { updatedAt: new Map(), lastFinished: new Map() };
+    const urls = [...new Set(h2hUrls.filter(Boolean))];
+    const keys = [...new Set(urls.map(h2hSlug).filter(Boolean))];
+    if (keys.length === 0) return state;
+
+    const { data: h2hRows, error: h2hError } = await this.supabase
+      .from('tennis_h2h')
+      .select('h2h_key, updated_at')
+      .in('h2h_key', keys);
+
+    if (h2hError) {
+      console.error('[DB] Failed to load H2H freshness:', h2hError.message);
+      return state;
+    }
+    for (const row of h2hRows || []) {
+      if (row.updated_at) state.updatedAt.set(row.h2h_key, row.updated_at);
+    }
+
+    const { data: resultRows, error: resultError } = await this.supabase
+      .from('tennis_daily_matches')
+      .select('h2h_url, match_date')
+      .in('h2h_url', urls)
+      .eq('status', 'finished');
+
+    if (resultError) {
+      console.error('[DB] Failed to load recent results for H2H freshness:', resultError.message);
+      return state;
+    }
+    for (const row of resultRows || []) {
+      const key = h2hSlug(row.h2h_url);
+      const previous = state.lastFinished.get(key);
+      if (key && (!previous || row.match_date > previous)) state.lastFinished.set(key, row.match_date);
+    }
+
+    return state;
+  }
+
+  // ─── Quarantine ────────────────────────────────────────────────────────
+
+  /** Hold rows that failed validation back for review, latest version per row */
+  async quarantine(records: QuarantineRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    logQuarantine(records);
+    const { error } = await this.supabase
+      .from('tennis_quarantine')
+      .upsert(records.map(r => quarantineColumns(r, this.runId)), { onConflict: 'kind,row_key' });
+
+    if (error) {
+      console.error('[DB] Failed to quarantine rows:', error.message);
+    }
+  }
+
+  // ─── Alerts ────────────────────────────────────────────────────────────
+
+  /** When an alert key last went out, or null if never (or unreadable) */
+  async getAlertSentAt(key: string): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('tennis_alerts')
+      .select('sent_at')
+      .eq('alert_key', key)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[DB] Failed to load alert ' + key + ':', error.message);
+      return null;
     }
+    return data?.sent_at || null;
   }
+
+  async recordAlert(alert: Alert): Promise<void> {
+    const { error } = await this.supabase
+      .from('tennis_alerts')
+      .upsert(alertColumns(alert, this.runId), { onConflict: 'alert_key' });
+
+    if (error) {
+      console.error('[DB] Failed to record alert ' + alert.key + ':', error.message);
+    }
+  }
+
+  // ─── Backfill Progress ─────────────────────────────────────────────────
+
+  async getBackfillProgress(date: string): Promise<BackfillProgress | null> {
+    const { data, error } = await this.supabase
+      .from('tennis_backfill_progress')
+      .select('match_date, status, matches_found, h2h_total, h2h_done_keys, h2h_failed_keys, error')
+      .eq('match_date', date)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[DB] Failed to load backfill progress for ' + date + ':', error.message);
+      return null;
+    }
+    if (!data) return null;
+
+    return backfillFromRow(data);
+  }
+
+  async saveBackfillProgress(progress: BackfillProgress): Promise<void> {
+    const { error } = await this.supabase
+      .from('tennis_backfill_progress')
+      .upsert(backfillColumns(progress), { onConflict: 'match_date' });
+
+    if (error) {
+      console.error('[DB] Failed to save backfill progress for ' + progress.date + ':', error.message);
+    }
+  }
+
   async hasMatchesForDate(date: string): Promise<boolean> {
     const { data } = await this.supabase
       .from('tennis_daily_matches')
       .select('id')
       .eq('match_date', date)
+      .eq('removed', false)
       .limit(1);
     return !!(data && data.length > 0);
   }
@@ -0,0 +1,150 @@
+/**
+ * Dry-run database: reads still go to the configured storage (accounts, registry,
+ * progress), every write is printed instead of sent.
+ */
+
+import { matchKey } from './parsers';
+import { TournamentInfo } from './tournaments';
+import { ScrapeRunRecord } from './runledger';
+import { getPlayerRegistry } from './players';
+import { H2HCacheState } from './freshness';
+import { TennisStorage } from './storage';
+import { Alert } from './notifier';
+import { QuarantineRecord, logQuarantine, quarantineError, screenH2H, screenMatches } from './validation';
+import { BackfillProgress, DailyMatch, H2HData, Player, TennisStatsAccount } from './types';
+
+export class DryRunDB implements TennisStorage {
+  constructor(private storage: TennisStorage) {}
+
+  getActiveAccounts(): Promise<TennisStatsAccount[]> {
+    return this.storage.getActiveAccounts();
+  }
+
+  getPlayers(): Promise<Player[]> {
+    return this.storage.getPlayers();
+  }
+
+  getTournaments(): Promise<TournamentInfo[] | null> {
+    return this.storage.getTournaments();
+  }
+
+  hasMatchesForDate(date: string): Promise<boolean> {
+    return this.storage.hasMatchesForDate(date);
+  }
+
+  getH2HCacheState(h2hUrls: string[]): Promise<H2HCacheState> {
+    return this.storage.getH2HCacheState(h2hUrls);
+  }
+
+  getBackfillProgress(date: string): Promise<BackfillProgress | null> {
+    return this.storage.getBackfillProgress(date);
+  }
+
+  getAlertSentAt(key: string): Promise<string | null> {
+    return this.storage.getAlertSentAt(key);
+  }
+
+  async close(): Promise<void> {
+    await this.storage.close?.();
+  }
+
+  async startRun(run: ScrapeRunRecord): Promise<void> {
+    console.log(`[DryRun] would insert scrape_runs ${run.id} (${run.command})`);
+  }
+
+  async finishRun(run: ScrapeRunRecord): Promise<void> {
+    console.log(`[DryRun] would finish scrape_runs ${run.id}: ${run.status}`);
+    console.log(JSON.stringify(run, null, 2));
+  }
+
+  async recordAccountSuccess(account: TennisStatsAccount): Promise<void> {
+    console.log(`[DryRun] would mark account ${account.username} healthy`);
+  }
+
+  async recordAccountFailure(account: TennisStatsAccount, reason: string, deactivate: boolean): Promise<void> {
+    console.log(`[DryRun] would record ${reason} for account ${account.username}` +
+      ` (${account.failureCount} in a row${deactivate ? ', deactivate' : ''})`);
+  }
+
+  async upsertPlayers(players: Player[]): Promise<void> {
+    if (players.length === 0) return;
+    console.log(`[DryRun] would upsert ${players.length} rows into tennis_players: ` +
+      players.map(p => p.id + (p.aliases.length ? ' (' + p.aliases.join(', ') + ')' : '')).join(', '));
+  }
+
+  async seedTournaments(tournaments: TournamentInfo[]): Promise<void> {
+    console.log(`[DryRun] would seed ${tournaments.length} rows into tennis_tournaments`);
+  }
+
+  async upsertDailyMatches(matches: DailyMatch[], date: string): Promise<void> {
+    const { valid, rejected } = screenMatches(matches, date);
+    await this.quarantine(rejected);
+    console.log(`[DryRun] would upsert ${valid.length} rows into tennis_daily_matches for ${date}`);
+    for (const m of valid) {
+      const ids = getPlayerRegistry().resolvePair(m.h2hUrl, m.player1.name, m.player2.name, m.gender);
+      console.log('   ' + [
+        matchKey(m.h2hUrl, date),
+        m.tournamentOfficialName || m.tournament,
+        m.player1.name + ' vs ' + m.player2.name + (ids ? ' [' + ids.join(' / ') + ']' : ''),
+        m.status + (m.score ? ' ' + m.score : ''),
+        'odds ' + m.player1.odds + '/' + m.player2.odds,
+      ].join(' | '));
+    }
+    await this.upsertPlayers(getPlayerRegistry().takeChanged());
+  }
+
+  async updateMatchResults(matches: DailyMatch[], date: string): Promise<number> {
+    const finished = matches.filter(m => m.status === 'finished' && m.score && m.h2hUrl);
+    console.log(`[DryRun] would update ${finished.length} results in tennis_daily_matches for ${date}`);
+    for (const m of finished) {
+      console.log('   ' + matchKey(m.h2hUrl, date) + ' | ' + m.score + ' | winner: ' + (m.winner || '?'));
+    }
+    return finished.length;
+  }
+
+  async recordOddsSnapshots(matches: DailyMatch[], date: string): Promise<void> {
+    const priced = matches.filter(m => m.h2hUrl && (m.player1.odds !== null || m.player2.odds !== null));
+    console.log(`[DryRun] would insert ${priced.length} rows into tennis_odds_snapshots for ${date}`);
+  }
+
+  async recordLiveStates(matches: DailyMatch[], date: string): Promise<number> {
+    const live = matches.filter(m => m.status === 'live' && m.live && m.h2hUrl);
+    console.log(`[DryRun] would insert ${live.length} rows into tennis_live_states for ${date}`);
+    for (const m of live) {
+      console.log('   ' + matchKey(m.h2hUrl, date) + ' | ' + JSON.stringify(m.live));
+    }
+    return live.length;
+  }
+
+  async upsertH2H(h2h: H2HData): Promise<void> {
+    const rejected = screenH2H(h2h);
+    if (rejected) {
+      await this.quarantine([rejected]);
+      console.log(JSON.stringify(h2h, null, 2));
+      throw quarantineError(rejected);
+    }
+    console.log(`[DryRun] would upsert tennis_h2h ${h2h.h2hKey} (+${Object.keys(h2h.periods || {}).length} period rows):`);
+    console.log(JSON.stringify(h2h, null, 2));
+  }
+
+  async upsertH2HPeriods(h2h: H2HData): Promise<void> {
+    console.log(`[DryRun] would upsert ${Object.keys(h2h.periods || {}).length} rows into tennis_h2h_periods for ${h2h.h2hKey}`);
+  }
+
+  async quarantine(records: QuarantineRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    logQuarantine(records);
+    console.log(`[DryRun] would upsert ${records.length} rows into tennis_quarantine`);
+  }
+
+  async recordAlert(alert: Alert): Promise<void> {
+    console.log(`[DryRun] would record alert ${alert.key} in tennis_alerts`);
+  }
+
+  async saveBackfillProgress(progress: BackfillProgress): Promise<void> {
+    console.log(`[DryRun] would save backfill progress ${progress.date}: ${progress.status}` +
+      ` (${progress.h2hDoneKeys.length}/${progress.h2hTotal} H2H)`);
+  }
+}
+
+export default DryRunDB;
@@ -0,0 +1,122 @@
+/**
+ * Scrape Error Taxonomy
+ *
+ * Every H2H failure ends up as one ScrapeError kind, each with its own retry
+ * policy, so the run summary says what to do next:
+ *
+ *   blocked         Cloudflare challenge            → slow down / retry later
+ *   auth            premium sections missing        → re-export cookies
+ *   not-found       404 or not an H2H page          → nothing to do
+ *   layout-changed  page loaded but didn't parse    → fix a selector
+ *   timeout         navigation/network/browser      → retry
+ *   db-write        Supabase rejected the row       → check the schema
+ *   invalid         row failed validation.ts        → review tennis_quarantine
+ */
+
+export type ScrapeErrorKind = 'blocked' | 'auth' | 'not-found' | 'layout-changed' | 'timeout' | 'db-write' | 'invalid';
+
+export const SCRAPE_ERROR_KINDS: ScrapeErrorKind[] = ['blocked', 'auth', 'not-found', 'layout-changed', 'timeout', 'db-write', 'invalid'];
+
+export class ScrapeError extends Error {
+  constructor(readonly kind: ScrapeErrorKind, message: string, readonly url?: string) {
+    super(message);
+    this.name = 'ScrapeError';
+  }
+}
+
+/** What to do about each kind, for the run summary */
+export const ERROR_HINTS: Record<ScrapeErrorKind, string> = {
+  'blocked': 'slow down or retry later',
+  'auth': 're-export cookies',
+  'not-found': 'nothing to do',
+  'layout-changed': 'check the selectors in parsers.ts',
+  'timeout': 'retry',
+  'db-write': 'check the Supabase schema',
+  'invalid': 'review the rows in tennis_quarantine',
+};
+
+export interface RetryPolicy {
+  retries: number;      // extra attempts after the first
+  backoffMs: number;    // wait before the first retry, doubled for each one after
+}
+
+export const RETRY_POLICIES: Record<ScrapeErrorKind, RetryPolicy> = {
+  'blocked': { retries: 1, backoffMs: 30000 },
+  'auth': { retries: 0, backoffMs: 0 },
+  'not-found': { retries: 0, backoffMs: 0 },
+  'layout-changed': { retries: 0, backoffMs: 0 },
+  'timeout': { retries: 2, backoffMs: 5000 },
+  'db-write': { retries: 2, backoffMs: 2000 },
+  'invalid': { retries: 0, backoffMs: 0 },
+};
+
+/** Kinds a later attempt won't fix: the page is gone, or its data fails validation */
+export const PERMANENT_KINDS: ScrapeErrorKind[] = ['not-found', 'invalid'];
+
+/** Map anything thrown while scraping onto a ScrapeError */
+export function classifyError(err: unknown, url?: string): ScrapeError {
+  if (err instanceof ScrapeError) return err;
+
+  const message = err instanceof Error ? err.message : String(err);
+  const name = err instanceof Error ? err.name : '';
+  if (name === 'TimeoutError' || /timeout|timed out|net::ERR_|Target closed|Protocol error|detached/i.test(message)) {
+    return new ScrapeError('timeout', message, url);
+  }
+  // Anything else came out of our own parsing of a page that did load
+  return new ScrapeError('layout-changed', message, url);
+}
+
+function sleep(ms: number) {
+  return new Promise(r => setTimeout(r, ms));
+}
+
+/**
+ * Run `fn`, retrying according to the policy of whatever kind it fails with.
+ * The last error is rethrown as a ScrapeError.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  onRetry?: (err: ScrapeError, attempt: number, waitMs: number) => void
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (raw) {
+      const err = classifyError(raw);
+      const policy = RETRY_POLICIES[err.kind];
+      if (attempt > policy.retries) throw err;
+
+      const waitMs = policy.backoffMs * 2 ** (attempt - 1);
+      onRetry?.(err, attempt, waitMs);
+      await sleep(waitMs);
+    }
+  }
+}
+
+/** Per-kind failure counts for one run, with the first few URLs of each kind */
+export class ErrorTally {
+  readonly counts: Record<ScrapeErrorKind, number> = {
+    'blocked': 0, 'auth': 0, 'not-found': 0, 'layout-changed': 0, 'timeout': 0, 'db-write': 0, 'invalid': 0,
+  };
+  readonly samples: Partial<Record<ScrapeErrorKind, string[]>> = {};
+
+  add(err: ScrapeError): void {
+    this.counts[err.kind]++;
+    const samples = this.samples[err.kind] || (this.samples[err.kind] = []);
+    if (samples.length < 5) samples.push(err.url ? err.url + ' — ' + err.message : err.message);
+  }
+
+  get total(): number {
+    return SCRAPE_ERROR_KINDS.reduce((sum, kind) => sum + this.counts[kind], 0);
+  }
+
+  /** Kinds that occurred, most frequent first */
+  kinds(): ScrapeErrorKind[] {
+    return SCRAPE_ERROR_KINDS.filter(k => this.counts[k] > 0).sort((a, b) => this.counts[b] - this.counts[a]);
+  }
+
+  /** "blocked 2, timeout 1" — only kinds that occurred */
+  format(): string {
+    return this.kinds().map(k => k + ' ' + this.counts[k]).join(', ') || 'none';
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * H2H Freshness Policy
+ *
+ * Decides which H2H pages actually need scraping this run. A pair scraped within
+ * the TTL is skipped (e.g. the same match still on the schedule after a rain delay),
+ * unless the two players have finished a match since that scrape — then the
+ * stored history and percentages are out of date and the page is fetched again.
+ */
+
+import { DailyMatch } from './types';
+import { h2hSlug } from './parsers';
+
+export interface FreshnessPolicy {
+  ttlHours: number;   // skip pairs scraped less than this long ago (0 = never skip)
+  force: boolean;     // ignore the cache entirely for this run
+}
+
+export interface H2HCacheState {
+  updatedAt: Map<string, string>;     // h2h_key → tennis_h2h.updated_at
+  lastFinished: Map<string, string>;  // h2h_key → latest match_date with a finished result
+}
+
+export type FreshnessReason = 'forced' | 'never scraped' | 'expired' | 'played since' | 'fresh';
+
+export interface FreshnessDecision<T extends DailyMatch> {
+  match: T;
+  key: string;
+  scrape: boolean;
+  reason: FreshnessReason;
+}
+
+/**
+ * Split matches into ones to scrape and ones whose stored H2H is still fresh.
+ * Matches without a usable h2hUrl are always scraped (nothing to look up).
+ */
+export function applyFreshness<T extends DailyMatch>(
+  matches: T[],
+  cache: H2HCacheState,
+  policy: FreshnessPolicy,
+  now: Date = new Date()
+): FreshnessDecision<T>[] {
+  const ttlMs = policy.ttlHours * 60 * 60 * 1000;
+
+  return matches.map(match => {
+    const key = h2hSlug(match.h2hUrl);
+    const decide = (scrape: boolean, reason: FreshnessReason) => ({ match, key, scrape, reason });
+
+    if (policy.force) return decide(true, 'forced');
+
+    const updatedAt = key ? cache.updatedAt.get(key) : undefined;
+    if (!updatedAt) return decide(true, 'never scraped');
+
+    const scrapedAt = new Date(updatedAt);
+    if (isNaN(scrapedAt.getTime()) || now.getTime() - scrapedAt.getTime() >= ttlMs) {
+      return decide(true, 'expired');
+    }
+
+    // Result rows only carry a date, so a match finished on the scrape day counts as "since"
+    const finished = cache.lastFinished.get(key);
+    if (finished && finished >= updatedAt.slice(0, 10)) return decide(true, 'played since');
+
+    return decide(false, 'fresh');
+  });
+}
@@ -0,0 +1,474 @@
+/**
+ * Local Storage Backends
+ *
+ * Offline stand-ins for Supabase: the same tables and the same rows (built by the
+ * row mapping in storage.ts), kept in a SQLite file or a directory of JSON-lines
+ * files. Meant for development and scratch runs, so every query is a full-table
+ * read filtered in memory.
+ *
+ *   sqlite  one table per Supabase table: `key` (the upsert key) + `data` (the row as JSON),
+ *           queryable with json_extract(data, '$.column')
+ *   jsonl   <dir>/<table>.jsonl, append-only; for keyed tables the last line per key wins
+ *
+ * Accounts are read from tennisstats_accounts like on Supabase; with an empty
+ * table use --cookies-file.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type Database from 'better-sqlite3';
+import { BackfillProgress, DailyMatch, H2HData, Player, TennisStatsAccount } from './types';
+import { h2hSlug, matchKey } from './parsers';
+import { H2HCacheState } from './freshness';
+import { ScrapeError } from './errors';
+import { ScrapeRunRecord } from './runledger';
+import { getPlayerRegistry } from './players';
+import { TournamentInfo } from './tournaments';
+import { Alert } from './notifier';
+import { QuarantineRecord, logQuarantine, quarantineError, screenH2H, screenMatches, validateDailyMatch } from './validation';
+import {
+  TennisStorage,
+  accountFailureColumns,
+  accountsFromRows,
+  accountSuccessColumns,
+  alertColumns,
+  backfillColumns,
+  backfillFromRow,
+  dailyMatchColumns,
+  h2hColumns,
+  h2hPeriodRows,
+  latestOddsByKey,
+  liveStateRows,
+  matchResultColumns,
+  oddsSnapshotRows,
+  playerColumns,
+  playerFromRow,
+  quarantineColumns,
+  runColumns,
+  tournamentColumns,
+  tournamentFromRow,
+} from './storage';
+
+type Row = Record<string, any>;
+
+/** Upsert key columns per table; null = append-only history */
+const TABLE_KEYS: Record<string, string[] | null> = {
+  scrape_runs: ['id'],
+  tennisstats_accounts: ['username'],
+  tennis_players: ['id'],
+  tennis_tournaments: ['name', 'gender'],
+  tennis_daily_matches: ['match_key'],
+  tennis_odds_snapshots: null,
+  tennis_live_states: null,
+  tennis_h2h: ['h2h_key'],
+  tennis_h2h_periods: ['h2h_key', 'period'],
+  tennis_backfill_progress: ['match_date'],
+  tennis_quarantine: ['kind', 'row_key'],
+  tennis_alerts: ['alert_key'],
+};
+
+function rowKey(table: string, row: Row): string | null {
+  const columns = TABLE_KEYS[table];
+  return columns ? columns.map(c => String(row[c] ?? '')).join('|') : null;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * TennisStorage over two primitives — read a table, write rows to it — with the
+ * Supabase semantics on top: upserts merge into the stored row (columns that
+ * aren't sent are kept), updates patch the rows a filter picks.
+ */
+export abstract class LocalStorage implements TennisStorage {
+  private runId: string | null = null;
+
+  /** Every current row of a table, oldest first */
+  protected abstract read(table: string): Row[];
+
+  /** Store whole rows: replacing by key, or appending for history tables */
+  protected abstract write(table: string, rows: Row[]): void;
+
+  abstract close(): Promise<void>;
+
+  /** Merge rows into the table by its key; returns the error message, if any */
+  private upsert(table: string, rows: Row[]): string | null {
+    try {
+      const stored = new Map(this.read(table).map(r => [rowKey(table, r), r]));
+      this.write(table, rows.map(r => ({ ...stored.get(rowKey(table, r)), ...r })));
+      return null;
+    } catch (err) {
+      return errorMessage(err);
+    }
+  }
+
+  private insert(table: string, rows: Row[]): string | null {
+    try {
+      this.write(table, rows);
+      return null;
+    } catch (err) {
+      return errorMessage(err);
+    }
+  }
+
+  private update(table: string, where: (row: Row) => boolean, columns: Row): { updated: number; error: string | null } {
+    try {
+      const rows = this.read(table).filter(where).map(r => ({ ...r, ...columns }));
+      if (rows.length > 0) this.write(table, rows);
+      return { updated: rows.length, error: null };
+    } catch (err) {
+      return { updated: 0, error: errorMessage(err) };
+    }
+  }
+
+  // ─── Run Ledger ────────────────────────────────────────────────────────
+
+  async startRun(run: ScrapeRunRecord): Promise<void> {
+    this.runId = run.id;
+    const error = this.upsert('scrape_runs', [runColumns(run)]);
+    if (error) {
+      console.error('[DB] Failed to start scrape run:', error);
+    }
+  }
+
+  async finishRun(run: ScrapeRunRecord): Promise<void> {
+    const error = this.upsert('scrape_runs', [runColumns(run)]);
+    if (error) {
+      console.error('[DB] Failed to finish scrape run:', error);
+    }
+  }
+
+  // ─── Account / Cookies ─────────────────────────────────────────────────
+
+  async getActiveAccounts(): Promise<TennisStatsAccount[]> {
+    const rows = this.read('tennisstats_accounts')
+      .filter(r => r.is_active !== false && r.session_cookies)
+      .sort((a, b) => String(b.last_success_at || '').localeCompare(String(a.last_success_at || '')));
+    return accountsFromRows(rows);
+  }
+
+  async recordAccountSuccess(account: TennisStatsAccount): Promise<void> {
+    const { error } = this.update('tennisstats_accounts', r => r.username === account.username, accountSuccessColumns());
+    if (error) {
+      console.error('[DB] Failed to record success for ' + account.username + ':', error);
+    }
+  }
+
+  async recordAccountFailure(account: TennisStatsAccount, reason: string, deactivate: boolean): Promise<void> {
+    const { error } = this.update('tennisstats_accounts', r => r.username === account.username,
+      accountFailureColumns(account, reason, deactivate));
+    if (error) {
+      console.error('[DB] Failed to record failure for ' + account.username + ':', error);
+    }
+  }
+
+  // ─── Registries ────────────────────────────────────────────────────────
+
+  async getPlayers(): Promise<Player[]> {
+    return this.read('tennis_players').map(playerFromRow);
+  }
+
+  async upsertPlayers(players: Player[]): Promise<void> {
+    if (players.length === 0) return;
+    const error = this.upsert('tennis_players', players.map(playerColumns));
+    if (error) {
+      console.error('[DB] Failed to upsert players:', error);
+    }
+  }
+
+  async getTournaments(): Promise<TournamentInfo[] | null> {
+    return this.read('tennis_tournaments').filter(t => t.is_active).map(tournamentFromRow);
+  }
+
+  async seedTournaments(tournaments: TournamentInfo[]): Promise<void> {
+    const error = this.upsert('tennis_tournaments', tournaments.map(tournamentColumns));
+    if (error) {
+      console.error('[DB] Failed to seed tournaments:', error);
+    } else {
+      console.log(`[DB] Seeded ${tournaments.length} tournaments`);
+    }
+  }
+
+  // ─── Daily Matches ─────────────────────────────────────────────────────
+
+  async upsertDailyMatches(matches: DailyMatch[], date: string): Promise<void> {
+    const seenAt = new Date().toISOString();
+    const { valid, rejected } = screenMatches(matches.filter(m => m.h2hUrl), date);
+    await this.quarantine(rejected);
+    const rows = valid.map(m => dailyMatchColumns(m, date, this.runId, seenAt));
+
+    // An empty scrape (blocked page, quiet day) must not flag the whole day as removed
+    if (rows.length === 0) {
+      console.log(`[DB] No matches to save for ${date}`);
+      return;
+    }
+
+    await this.upsertPlayers(getPlayerRegistry().takeChanged());
+    const error = this.upsert('tennis_daily_matches', rows);
+    if (error) {
+      console.error('[DB] Failed to upsert matches:', error);
+      return;
+    }
+    console.log(`[DB] Upserted ${rows.length} matches for ${date}`);
+
+    const keys = new Set([...rows.map(r => r.match_key), ...rejected.map(r => r.key)]);
+    const { error: removeError } = this.update('tennis_daily_matches',
+      r => r.match_date === date && !r.removed && !keys.has(r.match_key), { removed: true });
+    if (removeError) {
+      console.error('[DB] Failed to flag removed matches:', removeError);
+    }
+  }
+
+  async updateMatchResults(matches: DailyMatch[], date: string): Promise<number> {
+    const finished = matches.filter(m => m.status === 'finished' && m.score && m.h2hUrl);
+    let updated = 0;
+
+    for (const m of finished) {
+      const key = matchKey(m.h2hUrl, date);
+      const result = this.update('tennis_daily_matches', r => r.match_key === key, matchResultColumns(m, this.runId));
+      if (result.error) {
+        console.error('[DB] Failed to update result ' + m.h2hUrl + ':', result.error);
+      } else if (result.updated > 0) {
+        updated++;
+      }
+    }
+
+    await this.upsertPlayers(getPlayerRegistry().takeChanged());
+    return updated;
+  }
+
+  async recordOddsSnapshots(matches: DailyMatch[], date: string): Promise<void> {
+    const priced = matches.filter(m =>
+      m.h2hUrl && (m.player1.odds !== null || m.player2.odds !== null) && validateDailyMatch(m).length === 0);
+    if (priced.length === 0) return;
+
+    const keys = new Set(priced.map(m => matchKey(m.h2hUrl, date)));
+    const previous = latestOddsByKey(this.read('tennis_odds_snapshots').filter(snap => keys.has(snap.match_key)));
+
+    const rows = oddsSnapshotRows(priced, date, previous, this.runId);
+    const error = this.insert('tennis_odds_snapshots', rows);
+    if (error) {
+      console.error('[DB] Failed to insert odds snapshots:', error);
+    } else {
+      console.log(`[DB] Recorded ${rows.length} odds snapshots for ${date}`);
+    }
+  }
+
+  async recordLiveStates(matches: DailyMatch[], date: string): Promise<number> {
+    const rows = liveStateRows(matches, date, this.runId);
+    if (rows.length === 0) return 0;
+
+    const error = this.insert('tennis_live_states', rows);
+    if (error) {
+      console.error('[DB] Failed to insert live states:', error);
+      return 0;
+    }
+
+    const keys = new Set(rows.map(r => r.match_key));
+    const { error: statusError } = this.update('tennis_daily_matches',
+      r => keys.has(r.match_key) && r.status === 'upcoming', { status: 'live' });
+    if (statusError) {
+      console.error('[DB] Failed to mark matches live:', statusError);
+    }
+    return rows.length;
+  }
+
+  async hasMatchesForDate(date: string): Promise<boolean> {
+    return this.read('tennis_daily_matches').some(r => r.match_date === date && !r.removed);
+  }
+
+  // ─── H2H Records ───────────────────────────────────────────────────────
+
+  /** Like TennisStatsDB.upsertH2H: invalid pages are quarantined, then thrown as invalid */
+  async upsertH2H(h2h: H2HData): Promise<void> {
+    const rejected = screenH2H(h2h);
+    if (rejected) {
+      await this.quarantine([rejected]);
+      throw quarantineError(rejected);
+    }
+    const row = h2hColumns(h2h, this.runId);
+
+    await this.upsertPlayers(getPlayerRegistry().takeChanged());
+    const error = this.upsert('tennis_h2h', [row]);
+    if (error) {
+      throw new ScrapeError('db-write', 'tennis_h2h upsert failed: ' + error, h2h.h2hKey);
+    }
+
+    await this.upsertH2HPeriods(h2h);
+  }
+
+  async upsertH2HPeriods(h2h: H2HData): Promise<void> {
+    const rows = h2hPeriodRows(h2h, this.runId);
+    if (rows.length === 0) return;
+
+    const error = this.upsert('tennis_h2h_periods', rows);
+    if (error) {
+      console.error('[DB] Failed to upsert H2H periods ' + h2h.h2hKey + ':', error);
+    }
+  }
+
+  async getH2HCacheState(h2hUrls: string[]): Promise<H2HCacheState> {
+    const state: H2HCacheState = { updatedAt: new Map(), lastFinished: new Map() };
+    const urls = new Set(h2hUrls.filter(Boolean));
+    const keys = new Set(Array.from(urls).map(h2hSlug).filter(Boolean));
+    if (keys.size === 0) return state;
+
+    for (const row of this.read('tennis_h2h')) {
+      if (keys.has(row.h2h_key) && row.updated_at) state.updatedAt.set(row.h2h_key, row.updated_at);
+    }
+    for (const row of this.read('tennis_daily_matches')) {
+      if (row.status !== 'finished' || !urls.has(row.h2h_url)) continue;
+      const key = h2hSlug(row.h2h_url);
+      const previous = state.lastFinished.get(key);
+      if (key && (!previous || row.match_date > previous)) state.lastFinished.set(key, row.match_date);
+    }
+    return state;
+  }
+
+  // ─── Quarantine ────────────────────────────────────────────────────────
+
+  async quarantine(records: QuarantineRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    logQuarantine(records);
+    const error = this.upsert('tennis_quarantine', records.map(r => quarantineColumns(r, this.runId)));
+    if (error) {
+      console.error('[DB] Failed to quarantine rows:', error);
+    }
+  }
+
+  // ─── Alerts ────────────────────────────────────────────────────────────
+
+  async getAlertSentAt(key: string): Promise<string | null> {
+    const row = this.read('tennis_alerts').find(r => r.alert_key === key);
+    return row?.sent_at || null;
+  }
+
+  async recordAlert(alert: Alert): Promise<void> {
+    const error = this.upsert('tennis_alerts', [alertColumns(alert, this.runId)]);
+    if (error) {
+      console.error('[DB] Failed to record alert ' + alert.key + ':', error);
+    }
+  }
+
+  // ─── Backfill Progress ─────────────────────────────────────────────────
+
+  async getBackfillProgress(date: string): Promise<BackfillProgress | null> {
+    const row = this.read('tennis_backfill_progress').find(r => r.match_date === date);
+    return row ? backfillFromRow(row) : null;
+  }
+
+  async saveBackfillProgress(progress: BackfillProgress): Promise<void> {
+    const error = this.upsert('tennis_backfill_progress', [backfillColumns(progress)]);
+    if (error) {
+      console.error('[DB] Failed to save backfill progress for ' + progress.date + ':', error);
+    }
+  }
+}
+
+// ─── SQLite ──────────────────────────────────────────────────────────────────
+
+export class SqliteStorage extends LocalStorage {
+  private db: Database.Database;
+  private created = new Set<string>();
+
+  constructor(readonly file: string) {
+    super();
+    // better-sqlite3 is a native optional dependency, loaded only when this backend is used
+    let Sqlite: typeof Database;
+    try {
+      Sqlite = require('better-sqlite3');
+    } catch (err: any) {
+      throw new Error('--storage sqlite needs the optional better-sqlite3 module (npm install better-sqlite3): ' + (err.message || err));
+    }
+    fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+    this.db = new Sqlite(file);
+    this.db.pragma('journal_mode = WAL');
+    console.log(`[DB] Using SQLite database ${file}`);
+  }
+
+  private table(name: string): string {
+    if (!(name in TABLE_KEYS)) throw new Error('Unknown table ' + name);
+    if (!this.created.has(name)) {
+      const key = TABLE_KEYS[name] ? 'key TEXT PRIMARY KEY' : 'seq INTEGER PRIMARY KEY AUTOINCREMENT';
+      this.db.exec(`CREATE TABLE IF NOT EXISTS ${name} (${key}, data TEXT NOT NULL)`);
+      this.created.add(name);
+    }
+    return name;
+  }
+
+  protected read(table: string): Row[] {
+    return this.db.prepare(`SELECT data FROM ${this.table(table)} ORDER BY rowid`).all()
+      .map((r: { data: string }) => JSON.parse(r.data));
+  }
+
+  protected write(table: string, rows: Row[]): void {
+    const keyed = TABLE_KEYS[this.table(table)] !== null;
+    const statement = keyed
+      ? this.db.prepare(`INSERT INTO ${table} (key, data) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET data = excluded.data`)
+      : this.db.prepare(`INSERT INTO ${table} (data) VALUES (?)`);
+
+    // One transaction per call, like a single Supabase upsert statement
+    this.db.transaction(() => {
+      for (const row of rows) {
+        if (keyed) statement.run(rowKey(table, row), JSON.stringify(row));
+        else statement.run(JSON.stringify(row));
+      }
+    })();
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
+
+// ─── JSON Lines ──────────────────────────────────────────────────────────────
+
+export class JsonlStorage extends LocalStorage {
+  // Tables are loaded once and kept in memory; every write is also appended to the file
+  private tables = new Map<string, Map<string, Row> | Row[]>();
+
+  constructor(readonly dir: string) {
+    super();
+    fs.mkdirSync(dir, { recursive: true });
+    console.log(`[DB] Using JSON-lines directory ${dir}`);
+  }
+
+  private file(table: string): string {
+    if (!(table in TABLE_KEYS)) throw new Error('Unknown table ' + table);
+    return path.join(this.dir, table + '.jsonl');
+  }
+
+  private load(table: string): Map<string, Row> | Row[] {
+    let rows = this.tables.get(table);
+    if (rows) return rows;
+
+    const file = this.file(table);
+    const lines = fs.existsSync(file) ? fs.readFileSync(file, 'utf8').split('\n').filter(Boolean) : [];
+    const parsed = lines.map(line => JSON.parse(line) as Row);
+    rows = TABLE_KEYS[table] ? new Map(parsed.map(r => [rowKey(table, r)!, r])) : parsed;
+    this.tables.set(table, rows);
+    return rows;
+  }
+
+  protected read(table: string): Row[] {
+    const rows = this.load(table);
+    return Array.isArray(rows) ? rows.slice() : Array.from(rows.values());
+  }
+
+  protected write(table: string, rows: Row[]): void {
+    if (rows.length === 0) return;
+    // Load first: loading after the append would read these rows back and add them twice
+    const stored = this.load(table);
+    fs.appendFileSync(this.file(table), rows.map(r => JSON.stringify(r)).join('\n') + '\n');
+
+    for (const row of rows) {
+      if (Array.isArray(stored)) stored.push(row);
+      else stored.set(rowKey(table, row)!, row);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.tables.clear();
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * Alert Notifier
+ *
+ * Sends the failures that used to sit in the container log — expired cookies,
+ * Cloudflare blocks, an empty homepage during a tournament week, H2H error
+ * spikes — to the targets configured in the environment:
+ *
+ *   ALERT_WEBHOOK_URL          generic webhook, gets the alert as JSON
+ *   ALERT_SLACK_WEBHOOK_URL    Slack-compatible incoming webhook ({ text })
+ *   ALERT_SMTP_HOST            email over SMTP, with ALERT_SMTP_PORT (587),
+ *                              ALERT_SMTP_USER / ALERT_SMTP_PASS, ALERT_EMAIL_FROM
+ *                              and ALERT_EMAIL_TO (comma-separated)
+ *   ALERT_COOLDOWN_HOURS       how long a sent alert stays quiet (6)
+ *
+ * Every alert carries a dedup key ("session-expired:alice"). A key is sent at
+ * most once per run, and not again until the cooldown has passed since it was
+ * last sent — tennis_alerts remembers that across runs.
+ */
+
+import nodemailer, { Transporter } from 'nodemailer';
+import { TennisStorage } from './storage';
+import { SessionCheck } from './types';
+import { TournamentInfo } from './tournaments';
+
+export type AlertKind = 'session-expired' | 'blocked' | 'empty-slate' | 'h2h-error-rate';
+
+export interface Alert {
+  kind: AlertKind;
+  key: string;                        // dedup key
+  title: string;
+  message: string;
+  details?: Record<string, string | number>;
+}
+
+const DEFAULT_COOLDOWN_HOURS = 6;
+const SEND_TIMEOUT_MS = 10000;
+
+// ─── Alerts ──────────────────────────────────────────────────────────────────
+
+/** An account was deactivated, or the cookies file no longer shows premium data */
+export function sessionAlert(username: string, check: SessionCheck, failureCount: number): Alert {
+  const expired = check === 'no-premium';
+  return {
+    kind: 'session-expired',
+    key: 'session-expired:' + username,
+    title: expired ? 'Cookies expired for ' + username : username + ' deactivated after ' + failureCount + ' blocked checks',
+    message: expired
+      ? 'Premium sections no longer render — re-export cookies from the browser.'
+      : 'Every session check was blocked — the account is inactive until it is re-enabled.',
+    details: { account: username, check },
+  };
+}
+
+/** Nothing left to rotate to; the run stops or carries on without premium data */
+export function noAccountAlert(message = 'Every active account failed validation — re-export cookies from the browser.'): Alert {
+  return {
+    kind: 'session-expired',
+    key: 'session-expired:all',
+    title: 'No working premium account',
+    message,
+  };
+}
+
+/** A homepage request hit a Cloudflare challenge */
+export function blockedAlert(url: string, command: string): Alert {
+  return {
+    kind: 'blocked',
+    key: 'blocked:homepage',
+    title: 'Cloudflare blocked the homepage',
+    message: url + ' returned a challenge page during `' + command + '` — no matches were read.',
+    details: { url, command },
+  };
+}
+
+/** The homepage had no supported matches while registry events are in progress */
+export function emptySlateAlert(date: string, inPlay: TournamentInfo[], matchesSeen: number): Alert {
+  return {
+    kind: 'empty-slate',
+    key: 'empty-slate:' + date,
+    title: 'No supported matches on ' + date,
+    message: inPlay.map(t => t.name).join(', ') + ' should be in progress, but the homepage had ' +
+      matchesSeen + ' matches and none from a supported tournament.',
+    details: { date, matchesSeen, tournaments: inPlay.length },
+  };
+}
+
+/** Too many H2H pages failed in one run */
+export function h2hErrorRateAlert(date: string, failed: number, attempted: number, summary: string): Alert {
+  return {
+    kind: 'h2h-error-rate',
+    key: 'h2h-error-rate:' + date,
+    title: 'H2H error rate ' + Math.round((failed / attempted) * 100) + '% on ' + date,
+    message: failed + ' of ' + attempted + ' H2H pages failed (' + summary + ').',
+    details: { date, failed, attempted, errors: summary },
+  };
+}
+
+// ─── Targets ─────────────────────────────────────────────────────────────────
+
+export interface AlertTarget {
+  readonly name: string;
+  send(alert: Alert): Promise<void>;
+}
+
+/** Message plus one "key: value" line per detail, for plain-text targets */
+export function alertText(alert: Alert): string {
+  const lines = Object.entries(alert.details || {}).map(([key, value]) => key + ': ' + value);
+  return [alert.message, ...lines].join('\n');
+}
+
+async function postJson(url: string, body: unknown): Promise<void> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+  });
+  if (!res.ok) throw new Error('HTTP ' + res.status + ' ' + (await res.text()).slice(0, 200));
+}
+
+/** POSTs the alert itself, plus where and when it came from */
+export class WebhookTarget implements AlertTarget {
+  readonly name = 'webhook';
+
+  constructor(private url: string) {}
+
+  send(alert: Alert): Promise<void> {
+    return postJson(this.url, { ...alert, source: 'tennisstats-scraper', sentAt: new Date().toISOString() });
+  }
+}
+
+/** Slack incoming-webhook payload; Mattermost and Discord's /slack endpoint accept it too */
+export function slackPayload(alert: Alert): { text: string } {
+  const lines = Object.entries(alert.details || {}).map(([key, value]) => '• ' + key + ': `' + value + '`');
+  return { text: [':rotating_light: *' + alert.title + '*', alert.message, ...lines].join('\n') };
+}
+
+export class SlackTarget implements AlertTarget {
+  readonly name = 'slack';
+
+  constructor(private url: string) {}
+
+  send(alert: Alert): Promise<void> {
+    return postJson(this.url, slackPayload(alert));
+  }
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  user?: string;
+  pass?: string;
+  from: string;
+  to: string[];
+}
+
+export class EmailTarget implements AlertTarget {
+  readonly name = 'email';
+  private transport: Transporter;
+
+  constructor(private options: SmtpOptions) {
+    this.transport = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.port === 465,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+      connectionTimeout: SEND_TIMEOUT_MS,
+    });
+  }
+
+  async send(alert: Alert): Promise<void> {
+    await this.transport.sendMail({
+      from: this.options.from,
+      to: this.options.to.join(', '),
+      subject: '[TennisStats] ' + alert.title,
+      text: alertText(alert),
+    });
+  }
+}
+
+// ─── Notifier ────────────────────────────────────────────────────────────────
+
+export interface NotifierOptions {
+  cooldownHours: number;
+  dryRun: boolean;        // print what would be sent instead of sending
+}
+
+export class Notifier {
+  private handled = new Set<string>();
+  private db: TennisStorage | null = null;
+
+  constructor(
+    private targets: AlertTarget[],
+    private options: NotifierOptions
+  ) {}
+
+  get targetNames(): string[] {
+    return this.targets.map(t => t.name);
+  }
+
+  /** Where sent keys are remembered between runs; without it the cooldown only covers this run */
+  useStorage(db: TennisStorage): void {
+    this.db = db;
+  }
+
+  /**
+   * Log the alert and send it to every target, unless its key was already
+   * handled this run or sent within the cooldown. Never throws — a failing
+   * target is logged and the run carries on. Resolves true when something was sent.
+   */
+  async notify(alert: Alert): Promise<boolean> {
+    if (this.handled.has(alert.key)) return false;
+    this.handled.add(alert.key);
+    console.warn(`[Alert] ${alert.title} — ${alert.message}`);
+    if (this.targets.length === 0) return false;
+
+    const lastSent = this.db ? await this.db.getAlertSentAt(alert.key) : null;
+    if (lastSent && Date.now() - new Date(lastSent).getTime() < this.options.cooldownHours * 3600 * 1000) {
+      console.log(`[Alert] ${alert.key} already sent at ${lastSent} — not repeating`);
+      return false;
+    }
+
+    if (this.options.dryRun) {
+      console.log(`[DryRun] would send alert ${alert.key} to ${this.targetNames.join(', ')}:`);
+      console.log(JSON.stringify(alert, null, 2));
+      return false;
+    }
+
+    const results = await Promise.allSettled(this.targets.map(t => t.send(alert)));
+    const sentTo: string[] = [];
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') sentTo.push(this.targets[i].name);
+      else console.error(`[Alert] ${this.targets[i].name} failed for ${alert.key}: ${result.reason?.message || result.reason}`);
+    });
+    if (sentTo.length === 0) return false;
+
+    console.log(`[Alert] Sent ${alert.key} to ${sentTo.join(', ')}`);
+    await this.db?.recordAlert(alert);
+    return true;
+  }
+}
+
+/** Targets and cooldown from the ALERT_* variables; no variables → log-only */
+export function notifierFromEnv(dryRun: boolean, env: NodeJS.ProcessEnv = process.env): Notifier {
+  const targets: AlertTarget[] = [];
+  if (env.ALERT_WEBHOOK_URL) targets.push(new WebhookTarget(env.ALERT_WEBHOOK_URL));
+  if (env.ALERT_SLACK_WEBHOOK_URL) targets.push(new SlackTarget(env.ALERT_SLACK_WEBHOOK_URL));
+
+  if (env.ALERT_SMTP_HOST) {
+    const to = (env.ALERT_EMAIL_TO || '').split(',').map(s => s.trim()).filter(Boolean);
+    if (to.length === 0) throw new Error('ALERT_SMTP_HOST is set but ALERT_EMAIL_TO is empty');
+    targets.push(new EmailTarget({
+      host: env.ALERT_SMTP_HOST,
+      port: Number(env.ALERT_SMTP_PORT || 587),
+      user: env.ALERT_SMTP_USER,
+      pass: env.ALERT_SMTP_PASS,
+      from: env.ALERT_EMAIL_FROM || env.ALERT_SMTP_USER || 'tennisstats-scraper@localhost',
+      to,
+    }));
+  }
+
+  const cooldownHours = Number(env.ALERT_COOLDOWN_HOURS || DEFAULT_COOLDOWN_HOURS);
+  if (isNaN(cooldownHours) || cooldownHours < 0) {
+    throw new Error('ALERT_COOLDOWN_HOURS must be a number of hours, got "' + env.ALERT_COOLDOWN_HOURS + '"');
+  }
+  return new Notifier(targets, { cooldownHours, dryRun });
+}
+
+let notifier = new Notifier([], { cooldownHours: DEFAULT_COOLDOWN_HOURS, dryRun: false });
+
+/** Replace the notifier every module alerts through (log-only until the runner sets one) */
+export function setNotifier(next: Notifier): void {
+  notifier = next;
+}
+
+export function getNotifier(): Notifier {
+  return notifier;
+}
+
+export default Notifier;
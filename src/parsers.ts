@@ -0,0 +1,869 @@
+/**
+ * TennisStats HTML Parsers
+ *
+ * Pure functions that turn a saved/rendered TennisStats page into our data shapes.
+ * No Puppeteer here — the scraper hands over `page.content()` and everything else
+ * happens offline, so markup changes can be reproduced from a saved page.
+ *
+ * Accepts either a raw HTML string or an already-parsed Document.
+ */
+
+import { parseHTML } from 'linkedom';
+import { DailyMatch, DoublesTeam, GamesLadderEntry, H2HData, H2HPeriodStats, LiveState, Round, ROUNDS } from './types';
+
+const BASE_URL = 'https://tennisstats.com';
+
+// ─── Shared Helpers ──────────────────────────────────────────────────────────
+
+export function toDocument(input: string | Document): Document {
+  if (typeof input !== 'string') return input;
+  return parseHTML(input).document as unknown as Document;
+}
+
+/** True when Cloudflare served its challenge page instead of the real content */
+export function isCloudflareChallenge(pageText: string): boolean {
+  return pageText.includes('Performing security verification') || pageText.includes('Just a moment');
+}
+
+/** "https://tennisstats.com/h2h/a-vs-b" → "a-vs-b" (empty if not an H2H URL) */
+export function h2hSlug(url: string): string {
+  const m = (url || '').match(/\/h2h\/([^?#]+?)\/?(?:[?#].*)?$/);
+  return m ? m[1] : '';
+}
+
+/** Stable identity for a daily match row: date + H2H slug */
+export function matchKey(h2hUrl: string, date: string): string {
+  return date + '_' + h2hSlug(h2hUrl);
+}
+
+function absoluteUrl(href: string): string {
+  return href.startsWith('http') ? href : BASE_URL + href;
+}
+
+function collapse(s: string | null | undefined): string {
+  return (s || '').replace(/\s+/g, ' ').trim();
+}
+
+/** Number in a stat cell; null when the cell is missing, "N/A" or "-" (a shown 0 stays 0) */
+export function parseNum(s: string | null | undefined): number | null {
+  if (!s || s === 'N/A' || s === '-') return null;
+  const n = parseFloat(s.replace(/[^0-9.\-]/g, ''));
+  return isNaN(n) ? null : n;
+}
+
+/** "38%" / "3 (75.0%)" → percentage; null when no percentage is shown */
+export function parsePct(s: string | null | undefined): number | null {
+  if (!s || s === 'N/A' || s === '-') return null;
+  const m = s.match(/([\d.]+)\s*%/);
+  return m ? parseFloat(m[1]) : null;
+}
+
+// ─── Daily Matches (Homepage) ────────────────────────────────────────────────
+
+type MatchLinkFields = Pick<DailyMatch,
+  'player1' | 'player2' | 'scheduledTime' | 'scheduleKind' | 'status' | 'h2hUrl' | 'score' | 'setScores' | 'winner' | 'live' | 'team1' | 'team2'>;
+
+// "3:30 pm", "15:30", optionally "NB" / "Not before" in front
+const START_TIME = /(?:\b(?:not before|nb)\.?\s*)?\d{1,2}:\d{2}(?:\s*[ap]m)?/i;
+const AFTER_PREVIOUS = /after (?:the )?previous(?: match)?|followed by|foll(?:\.|owed)? by|to follow/i;
+
+/** Per-set game counts in a chunk of link text, ignoring odds ("1.85") and times ("3:30 pm") */
+function setGames(text: string): number[] {
+  return text
+    .replace(/\d{1,2}:\d{2}\s*[ap]m/gi, ' ')
+    .replace(/\d+\.\d+/g, ' ')
+    .split(/\s+/)
+    .filter(t => /^\d$/.test(t))
+    .map(t => parseInt(t));
+}
+
+const POINT_VALUES = ['0', '15', '30', '40', 'A', 'AD'];
+
+/** Score tokens of one side of a live row: set games plus (maybe) current-game points */
+function liveTokens(text: string): string[] {
+  return text
+    .replace(/Serving|•/g, ' ')
+    .replace(/\d+\.\d+/g, ' ')
+    .split(/\s+/)
+    .filter(t => /^(\d{1,2}|A|AD)$/.test(t));
+}
+
+/**
+ * Live state of an in-play row. Both sides list games per set, optionally followed
+ * by the current game's points. A trailing token is read as points when it can't be
+ * a game count (15/30/40/A); a 0-0 game is indistinguishable from set games and is
+ * reported with gameScore null.
+ */
+export function parseLiveState(betweenRanks: string, afterRank2: string, name2Index: number): LiveState | null {
+  const p1Text = betweenRanks.substring(0, name2Index);
+  let p1 = liveTokens(p1Text);
+  let p2 = liveTokens(afterRank2);
+  if (p1.length === 0 || p1.length !== p2.length) return null;
+
+  let gameScore: [string, string] | null = null;
+  const last1 = p1[p1.length - 1];
+  const last2 = p2[p2.length - 1];
+  const isPoints = (t: string) => POINT_VALUES.includes(t) && (t === 'A' || t === 'AD' || parseInt(t) > 7);
+  if (p1.length > 1 && POINT_VALUES.includes(last1) && POINT_VALUES.includes(last2) && (isPoints(last1) || isPoints(last2))) {
+    gameScore = [last1, last2];
+    p1 = p1.slice(0, -1);
+    p2 = p2.slice(0, -1);
+  }
+
+  const setScores = p1.map((g, i) => [parseInt(g), parseInt(p2[i])] as [number, number]);
+  if (setScores.some(([a, b]) => isNaN(a) || isNaN(b))) return null;
+
+  let server: LiveState['server'] = null;
+  if (/Serving|•/.test(p1Text)) server = 'player1';
+  else if (/Serving|•/.test(afterRank2)) server = 'player2';
+
+  return { server, currentSet: setScores.length, setScores, gameScore };
+}
+
+/**
+ * Final score of a finished row: player1's set games sit between the rankings
+ * (before player2's form/name), player2's after the second ranking.
+ * The winner is whoever took more sets; retirements with level sets have none.
+ */
+export function parseFinalScore(
+  betweenRanks: string,
+  afterRank2: string,
+  name2Index: number
+): { score: string; setScores: Array<[number, number]>; winnerSide: 1 | 2 | null } | null {
+  const p1Games = setGames(betweenRanks.substring(0, name2Index).replace('Fin.', ' '));
+  const p2Games = setGames(afterRank2);
+  if (p1Games.length === 0 || p1Games.length !== p2Games.length) return null;
+
+  const setScores = p1Games.map((g, i) => [g, p2Games[i]] as [number, number]);
+  const p1Sets = setScores.filter(([a, b]) => a > b).length;
+  const p2Sets = setScores.filter(([a, b]) => b > a).length;
+
+  return {
+    score: setScores.map(([a, b]) => a + '-' + b).join(' '),
+    setScores,
+    winnerSide: p1Sets > p2Sets ? 1 : p2Sets > p1Sets ? 2 : null,
+  };
+}
+
+// "A. Name (12) / B. Name (30)" — individual doubles rankings on one side
+const PAIR_RANKINGS = /\((\d+|-)\)\s*\/\s*([A-Z][^()\d]*?)\s*\((\d+|-)\)/g;
+
+/**
+ * Doubles rows either show one ranking per team ("A / B (12)") or one per player
+ * ("A (5) / B (7)"). Fold the second shape into the first, with the combined ranking,
+ * so the singles layout applies; the individual rankings are returned in row order.
+ */
+function foldPairRankings(rawText: string): { text: string; individual: Array<[number | null, number | null]> } {
+  const individual: Array<[number | null, number | null]> = [];
+  const toRank = (v: string) => (/^\d+$/.test(v) ? parseInt(v) : null);
+
+  const text = rawText.replace(PAIR_RANKINGS, (_, r1: string, name: string, r2: string) => {
+    const a = toRank(r1);
+    const b = toRank(r2);
+    individual.push([a, b]);
+    const combined = a !== null && b !== null ? String(a + b) : a !== null ? String(a) : b !== null ? String(b) : '-';
+    return ' / ' + name.trim() + ' (' + combined + ')';
+  });
+  return { text: collapse(text), individual };
+}
+
+/** "A. Name / B. Name" → a team, or null for a single player */
+export function parseDoublesTeam(
+  name: string,
+  ranking: number | null,
+  odds: number | null,
+  individual: [number | null, number | null] = [null, null]
+): DoublesTeam | null {
+  const names = name.split(/\s*\/\s*/).map(n => n.trim()).filter(Boolean);
+  if (names.length !== 2) return null;
+  return {
+    players: [{ name: names[0], ranking: individual[0] }, { name: names[1], ranking: individual[1] }],
+    ranking,
+    odds,
+  };
+}
+
+/**
+ * Parse the text of one homepage match link.
+ *
+ * Link text looks like: "<form1> <name1> (<rank1>) <odds1> <time|status> <form2> <name2> (<rank2>) <odds2>"
+ * Doubles rows have "<A> / <B>" names (see foldPairRankings) and get team1/team2.
+ * Returns null for rows that don't follow that shape (e.g. promo links).
+ */
+export function parseMatchLinkText(text: string, href: string): MatchLinkFields | null {
+  const { text: rawText, individual } = foldPairRankings(text);
+  const rankingPattern = /\(([^)]+)\)/g;
+  const rankings: Array<{ match: string; value: string; index: number }> = [];
+  let m: RegExpExecArray | null;
+  while ((m = rankingPattern.exec(rawText)) !== null) {
+    rankings.push({ match: m[0], value: m[1], index: m.index });
+  }
+  if (rankings.length < 2) return null;
+
+  const beforeRank1 = rawText.substring(0, rankings[0].index).trim();
+  const betweenRanks = rawText.substring(
+    rankings[0].index + rankings[0].match.length,
+    rankings[1].index
+  ).trim();
+  const afterRank2 = rawText.substring(
+    rankings[1].index + rankings[1].match.length
+  ).trim();
+
+  const p1Match = beforeRank1.match(/^(\d+)\s+(.+)$/);
+  if (!p1Match) return null;
+  const form1 = parseInt(p1Match[1]);
+  const name1 = p1Match[2].trim();
+
+  const isFinished = betweenRanks.includes('Fin.');
+  // The serve marker sits next to whoever is serving, so player2's side counts too
+  const isLive = /Serving|•/.test(betweenRanks) || /Serving|•/.test(afterRank2);
+  let status: DailyMatch['status'] = 'upcoming';
+  if (isFinished) status = 'finished';
+  else if (isLive) status = 'live';
+
+  const timeMatch = betweenRanks.match(START_TIME);
+  const afterMatch = timeMatch ? null : betweenRanks.match(AFTER_PREVIOUS);
+  const scheduledTime = timeMatch ? timeMatch[0] : afterMatch ? afterMatch[0] : '';
+  const scheduleKind: DailyMatch['scheduleKind'] = afterMatch ? 'after_previous'
+    : timeMatch && /not before|nb/i.test(timeMatch[0]) ? 'not_before'
+    : timeMatch ? 'fixed' : undefined;
+
+  // Names never contain digits — keeps "Fin." / set scores of finished rows out of name2
+  const name2Match = betweenRanks.match(/(\d+)\s+([A-Z][a-zA-Z.][^\d()]+)$/);
+  const form2 = name2Match ? parseInt(name2Match[1]) : 0;
+  const name2 = name2Match ? name2Match[2].trim() : '';
+
+  const odds1Match = betweenRanks.match(/^[\s]*(\d+\.\d{2})/);
+  const odds1 = odds1Match ? parseFloat(odds1Match[1]) : null;
+  const odds2Match = afterRank2.match(/(\d+\.\d{2})/);
+  const odds2 = odds2Match ? parseFloat(odds2Match[1]) : null;
+
+  let rank1: number | null = null;
+  const rank1Match = rankings[0].value.match(/^(\d+)/);
+  if (rank1Match) rank1 = parseInt(rank1Match[1]);
+  let rank2: number | null = null;
+  const rank2Match = rankings[1].value.match(/^(\d+)/);
+  if (rank2Match) rank2 = parseInt(rank2Match[1]);
+
+  if (!name1 || !name2) return null;
+
+  const result: MatchLinkFields = {
+    player1: { name: name1, ranking: rank1, formScore: form1, odds: odds1 },
+    player2: { name: name2, ranking: rank2, formScore: form2, odds: odds2 },
+    scheduledTime, status,
+    h2hUrl: absoluteUrl(href),
+    ...(scheduleKind ? { scheduleKind } : {}),
+  };
+
+  const team1 = parseDoublesTeam(name1, rank1, odds1, individual.length === 2 ? individual[0] : undefined);
+  const team2 = parseDoublesTeam(name2, rank2, odds2, individual.length === 2 ? individual[1] : undefined);
+  if (team1 && team2) {
+    result.team1 = team1;
+    result.team2 = team2;
+  }
+
+  if (isLive) {
+    const live = parseLiveState(betweenRanks, afterRank2, name2Match.index);
+    if (live) result.live = live;
+  }
+
+  if (isFinished) {
+    const final = parseFinalScore(betweenRanks, afterRank2, name2Match.index);
+    if (final) {
+      result.score = final.score;
+      result.setScores = final.setScores;
+      if (final.winnerSide) result.winner = final.winnerSide === 1 ? name1 : name2;
+    }
+  }
+
+  return result;
+}
+
+// ─── Rounds ──────────────────────────────────────────────────────────────────
+
+const ROUND_BY_SIZE: Record<number, Round> = { 128: 'R128', 64: 'R64', 32: 'R32', 16: 'R16', 8: 'QF', 4: 'SF', 2: 'F' };
+
+/** 1-based depth of a round (Q1 = 1 … F = 10), for ordering; null when unknown */
+export function roundOrder(round: Round | null | undefined): number | null {
+  return round ? ROUNDS.indexOf(round) + 1 : null;
+}
+
+/**
+ * Read a round from heading / label text:
+ *   "Q2", "Qualifying Round 2", "2nd Round Qualifying"     → Q1–Q3
+ *   "R32", "Round of 32", "Last 32"                         → R128–R16
+ *   "Quarter-finals", "QF", "Semifinal", "SF", "Final", "F" → QF / SF / F
+ * Ordinal main-draw rounds ("2nd Round") depend on the draw, so they only resolve
+ * when `drawSize` is known. Anything else — including a bare "Qualification" — is null.
+ */
+export function parseRound(text: string, drawSize?: number): Round | null {
+  const t = collapse(text).toLowerCase();
+  if (!t) return null;
+
+  const ordinal = t.match(/\b([1-4])(?:st|nd|rd|th)\s+round\b|\bround\s+([1-4])\b/);
+  const n = ordinal ? parseInt(ordinal[1] || ordinal[2]) : null;
+
+  const q = t.match(/\bq([1-3])\b/);
+  if (q) return ('Q' + q[1]) as Round;
+  if (/qualif/.test(t)) return n !== null && n <= 3 ? ('Q' + n) as Round : null;
+
+  const size = t.match(/\br(128|64|32|16)\b|round of (128|64|32|16)\b|last (128|64|32|16)\b/);
+  if (size) return ('R' + (size[1] || size[2] || size[3])) as Round;
+
+  if (/quarter[\s-]?finals?|\bqf\b/.test(t)) return 'QF';
+  if (/semi[\s-]?finals?|\bsf\b/.test(t)) return 'SF';
+  if (/\bfinals?\b/.test(t) || t === 'f') return 'F';
+
+  if (n !== null && drawSize) {
+    const firstRound = 2 ** Math.ceil(Math.log2(drawSize));
+    return ROUND_BY_SIZE[firstRound / 2 ** (n - 1)] || null;
+  }
+  return null;
+}
+
+type TournamentContext = Pick<DailyMatch, 'tournament' | 'country' | 'gender' | 'category' | 'surface' | 'round' | 'roundLabel' | 'court'>;
+
+// Round / court sub-headings inside a tournament section; `[class*="round"]` also hits
+// wrappers like "background", so only short texts count as labels
+const SUBHEADING_SELECTOR = 'h3, h4, [class*="round"], [class*="court"]';
+const MAX_ROUND_LABEL = 40;
+const COURT_NAME = /\bcourt\b|\barena\b|\bstadium\b|\bchatrier\b|\blenglen\b/i;
+
+/**
+ * Walk section headings and match links in document order, attaching the
+ * nearest preceding h2 (tournament - country) context to every h2h URL.
+ * Round sub-headings (and round labels inside a link) refine the round.
+ */
+function parseTournamentContext(doc: Document): Map<string, TournamentContext> {
+  const sections = doc.querySelectorAll('h2, ' + SUBHEADING_SELECTOR + ', a[href*="/h2h/"]');
+  let ctx: TournamentContext = {
+    tournament: '', country: '',
+    gender: 'Men', category: 'Singles',
+    surface: 'Hard', round: null,
+  };
+  let qualifying = false;
+  const tournamentMap = new Map<string, TournamentContext>();
+
+  // Round text under a Qualification section is a qualifying round even when it just says "Round 1"
+  const withQualifying = (label: string) => (qualifying && !/qualif/i.test(label) ? 'Qualifying ' + label : label);
+
+  sections.forEach(el => {
+    if (el.tagName === 'A') {
+      const href = el.getAttribute('href') || '';
+      if (!href.includes('/h2h/')) return;
+      const own = el.querySelector('[class*="round"]');
+      const ownText = own ? collapse(own.textContent) : '';
+      const label = ownText && ownText.length <= MAX_ROUND_LABEL ? withQualifying(ownText) : '';
+      const round = label ? parseRound(label) : null;
+      const ownCourt = collapse(el.querySelector('[class*="court"]')?.textContent);
+      tournamentMap.set(absoluteUrl(href), {
+        ...ctx,
+        ...(round || label ? { round: round || ctx.round, roundLabel: label || ctx.roundLabel } : {}),
+        ...(ownCourt && ownCourt.length <= MAX_ROUND_LABEL ? { court: ownCourt } : {}),
+      });
+    } else if (el.tagName !== 'H2') {
+      const text = collapse(el.textContent);
+      if (el.closest('a[href*="/h2h/"]') || !text || text.length > MAX_ROUND_LABEL) return;
+      if (COURT_NAME.test(text) && !parseRound(text)) {
+        ctx = { ...ctx, court: text };
+        return;
+      }
+      const label = withQualifying(text);
+      const round = parseRound(label);
+      // Keep unresolved ordinal labels ("2nd Round") for draw-size resolution later
+      if (round || /\bround\b/i.test(label)) ctx = { ...ctx, round, roundLabel: label };
+    } else {
+      const text = (el.textContent || '').trim();
+      const parts = text.match(/^(.+?)\s*-\s*(.+)$/);
+      const parent = el.closest('div') || el.parentElement;
+      const parentText = parent ? parent.textContent || '' : '';
+      ctx = {
+        tournament: parts ? parts[1].trim() : ctx.tournament,
+        country: parts ? parts[2].trim() : ctx.country,
+        gender: parentText.includes('Women') ? 'Women' : 'Men',
+        category: parentText.includes('Doubles') ? 'Doubles' : 'Singles',
+        surface: parentText.includes('Clay') ? 'Clay' : parentText.includes('Grass') ? 'Grass' : 'Hard',
+        round: parseRound(text),
+        roundLabel: parseRound(text) ? text : undefined,
+      };
+      qualifying = parentText.includes('Qualification');
+    }
+  });
+
+  return tournamentMap;
+}
+
+/**
+ * Parse every match row on a TennisStats homepage (today or /YYYY-MM-DD).
+ */
+export function parseDailyMatches(input: string | Document): DailyMatch[] {
+  const doc = toDocument(input);
+  const results: MatchLinkFields[] = [];
+
+  doc.querySelectorAll('a[href*="/h2h/"]').forEach(link => {
+    const href = link.getAttribute('href') || '';
+    const rawText = collapse(link.textContent);
+    if (!rawText || !href) return;
+
+    const parsed = parseMatchLinkText(rawText, href);
+    if (parsed) results.push(parsed);
+  });
+
+  const tournamentMap = parseTournamentContext(doc);
+  return results.map(r => ({ ...r, ...(tournamentMap.get(r.h2hUrl) || {}) }) as DailyMatch);
+}
+
+// ─── H2H Detail Page ─────────────────────────────────────────────────────────
+
+export type SectionRow = { label: string; p1: string; p2: string; total: string; p1Full: string; p2Full: string };
+
+const EMPTY_ROW: SectionRow = { label: '', p1: '', p2: '', total: '', p1Full: '', p2Full: '' };
+
+// Cell value extraction handles two HTML patterns:
+//   <span>3</span>(75.0%)  → span holds the numeric value
+//   38<span class="fs08e">%</span> → text node holds value, span is just "%"
+function getCellValue(cell: Element): string {
+  const spans = cell.querySelectorAll(':scope > span');
+  if (spans.length > 0) {
+    const first = (spans[0].textContent || '').trim();
+    if (/^[\d.\-]/.test(first) || first === 'N/A') return first;
+  }
+  return collapse(cell.textContent);
+}
+
+// Tab buttons of tabbed widgets name the .ui-toggle-target panel they open by id:
+// data-target="#id", href="#id" or aria-controls="id"
+export const TOGGLE_TRIGGER_SELECTOR = '[data-target], [aria-controls], a[href*="#"]';
+
+/**
+ * Normalise a tab label to a period key.
+ * "2026 Calendar Year" → calendar_year, "Last 12 Months" → last_12m, "Clay" → clay.
+ */
+export function normalisePeriod(text: string | null | undefined): string {
+  const t = collapse(text).toLowerCase();
+  if (!t) return '';
+  if (/last\s*12|12\s*m(onth)?s?\b|52\s*week/.test(t)) return 'last_12m';
+  if (t.includes('career')) return 'career';
+  if (t.includes('calendar') || /\b(19|20)\d{2}\b/.test(t)) return 'calendar_year';
+  if (t.includes('all surface')) return 'all';
+  for (const surface of ['hard', 'clay', 'grass']) {
+    if (t.includes(surface)) return surface;
+  }
+  return t.replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+function findWidget(h2: Element): Element | null {
+  let widget: Element | null = h2;
+  while (widget && !(widget.classList?.contains('widget-box-shadow') || widget.classList?.contains('widget-sidebar-ranking'))) {
+    widget = widget.parentElement;
+  }
+  return widget;
+}
+
+/** Id of the panel a tab button opens; empty when it doesn't name one */
+function triggerTargetId(trigger: Element): string {
+  const controls = collapse(trigger.getAttribute('aria-controls')).split(' ')[0];
+  if (controls) return controls;
+  const ref = trigger.getAttribute('data-target') || trigger.getAttribute('href') || '';
+  const hash = ref.indexOf('#');
+  return hash >= 0 ? ref.slice(hash + 1).trim() : '';
+}
+
+/**
+ * All toggle panels of a tabbed widget with their period key. A panel is labelled by
+ * its own data-period / data-title, else by the tab button that names its id — never
+ * by position, so a stray button can't shift every period onto the wrong panel.
+ * Panels without a label are skipped.
+ */
+function widgetPanels(widget: Element): Array<{ period: string; panel: Element }> {
+  const tabText = new Map<string, string>();
+  widget.querySelectorAll(TOGGLE_TRIGGER_SELECTOR).forEach(trigger => {
+    const id = triggerTargetId(trigger);
+    if (id && !tabText.has(id)) tabText.set(id, collapse(trigger.textContent));
+  });
+
+  return Array.from(widget.querySelectorAll('.ui-toggle-target'))
+    .map(panel => ({
+      panel,
+      period: normalisePeriod(panel.getAttribute('data-period') || panel.getAttribute('data-title') || tabText.get(panel.id)),
+    }))
+    .filter(p => p.period);
+}
+
+function readRows(container: Element): SectionRow[] {
+  const rows: SectionRow[] = [];
+
+  container.querySelectorAll('.data-table').forEach(dt => {
+    dt.querySelectorAll('.data-table-row').forEach(row => {
+      const children = Array.from(row.children) as Element[];
+      if (children.length < 2) return;
+
+      const label = collapse(children[0].textContent);
+      const p1 = children.length > 1 ? getCellValue(children[1]) : '';
+      const p2 = children.length > 2 ? getCellValue(children[2]) : '';
+      const total = children.length > 3 ? getCellValue(children[3]) : '';
+      const p1Full = children.length > 1 ? collapse(children[1].textContent) : '';
+      const p2Full = children.length > 2 ? collapse(children[2].textContent) : '';
+
+      if (label) rows.push({ label, p1, p2, total, p1Full, p2Full });
+    });
+  });
+
+  return rows;
+}
+
+/**
+ * Build section map: h2 heading → array of parsed data rows.
+ *
+ * Without `period`, tabbed widgets contribute their active panel (the site default).
+ * With `period`, only widgets that have a tab for that period are included.
+ */
+export function buildSectionMap(input: string | Document, period?: string): Map<string, SectionRow[]> {
+  const doc = toDocument(input);
+  const sectionMap = new Map<string, SectionRow[]>();
+
+  doc.querySelectorAll('h2').forEach(h2 => {
+    const heading = (h2.textContent || '').trim();
+    if (!heading || heading.length > 200) return;
+
+    const widget = findWidget(h2);
+    if (!widget) return;
+
+    let container: Element;
+    if (period) {
+      const match = widgetPanels(widget).find(p => p.period === period);
+      if (!match) return;
+      container = match.panel;
+    } else {
+      container = widget.querySelector('.ui-toggle-target.active') || widget;
+    }
+
+    const rows = readRows(container);
+    if (rows.length > 0) sectionMap.set(heading, rows);
+  });
+
+  return sectionMap;
+}
+
+/** Every period key offered by any tabbed widget on the page */
+export function listPeriods(input: string | Document): string[] {
+  const doc = toDocument(input);
+  const periods = new Set<string>();
+
+  doc.querySelectorAll('h2').forEach(h2 => {
+    const widget = findWidget(h2);
+    if (widget) widgetPanels(widget).forEach(p => periods.add(p.period));
+  });
+
+  return Array.from(periods);
+}
+
+/** Period keys a tab button can stand for; anything else in a widget header isn't a period tab */
+const TAB_PERIODS = ['last_12m', 'calendar_year', 'career', 'all', 'hard', 'clay', 'grass'];
+
+/** A period tab button and whether the HTML already holds its panel's rows */
+export interface PeriodTab {
+  period: string;
+  label: string;            // tab text, for clicking it in the browser
+  active: boolean;
+  loaded: boolean;          // panel present with data rows
+}
+
+/**
+ * Every period tab button on the page, one per period. A period counts as loaded
+ * only if every widget offering it has its panel rows in the HTML — the scraper
+ * clicks the tabs of the rest.
+ */
+export function listPeriodTabs(input: string | Document): PeriodTab[] {
+  const doc = toDocument(input);
+  const tabs = new Map<string, PeriodTab>();
+  const widgets = new Set<Element>();
+
+  doc.querySelectorAll('h2').forEach(h2 => {
+    const widget = findWidget(h2);
+    if (!widget || widgets.has(widget)) return;
+    widgets.add(widget);
+
+    widget.querySelectorAll(TOGGLE_TRIGGER_SELECTOR).forEach(trigger => {
+      const label = collapse(trigger.textContent);
+      const period = normalisePeriod(label);
+      const id = triggerTargetId(trigger);
+      if (!id || !TAB_PERIODS.includes(period)) return;
+
+      const panel = Array.from(widget.querySelectorAll('.ui-toggle-target')).find(p => p.id === id);
+      const active = trigger.classList?.contains('active') || trigger.getAttribute('aria-selected') === 'true' ||
+        !!panel?.classList?.contains('active');
+      const loaded = !!panel && readRows(panel).length > 0;
+
+      const tab = tabs.get(period);
+      if (!tab) {
+        tabs.set(period, { period, label, active, loaded });
+      } else {
+        tab.active = tab.active || active;
+        tab.loaded = tab.loaded && loaded;
+      }
+    });
+  });
+
+  return Array.from(tabs.values());
+}
+
+/** First row whose label contains `labelKeyword`, within sections whose heading contains `headingKeyword` */
+export function findValue(sectionMap: Map<string, SectionRow[]>, headingKeyword: string, labelKeyword: string): SectionRow {
+  const hk = headingKeyword.toLowerCase();
+  const lk = labelKeyword.toLowerCase();
+  for (const [heading, rows] of sectionMap.entries()) {
+    if (!heading.toLowerCase().includes(hk)) continue;
+    for (const row of rows) {
+      if (row.label.toLowerCase().includes(lk)) return row;
+    }
+  }
+  return EMPTY_ROW;
+}
+
+/** Like findValue, but tries several label spellings in order (the site isn't consistent across sections) */
+export function findAnyValue(sectionMap: Map<string, SectionRow[]>, headingKeyword: string, labelKeywords: string[]): SectionRow {
+  for (const lk of labelKeywords) {
+    const row = findValue(sectionMap, headingKeyword, lk);
+    if (row !== EMPTY_ROW) return row;
+  }
+  return EMPTY_ROW;
+}
+
+export function getFirstRow(sectionMap: Map<string, SectionRow[]>, headingKeyword: string): SectionRow {
+  const hk = headingKeyword.toLowerCase();
+  for (const [heading, rows] of sectionMap.entries()) {
+    if (!heading.toLowerCase().includes(hk)) continue;
+    if (rows.length > 0) return rows[0];
+  }
+  return EMPTY_ROW;
+}
+
+/**
+ * Parse every over/under row of the "Match Total Games" section into a ladder.
+ *
+ * Labels look like "Over 22.5 Games", "Under 21.5", "25.5+" or "Set Over 9.5".
+ * Under rows are converted to over percentages (half-point lines can't push),
+ * but an explicit Over row for the same line always wins.
+ */
+export function parseGamesLadder(sectionMap: Map<string, SectionRow[]>): Record<string, GamesLadderEntry> {
+  const ladder: Record<string, GamesLadderEntry> = {};
+  const fromUnder = new Set<string>();
+  const pct = (full: string, value: string) => (/%/.test(full || value) ? parsePct(full || value) : parseNum(value));
+
+  for (const [heading, rows] of sectionMap.entries()) {
+    if (!heading.toLowerCase().includes('match total games')) continue;
+
+    for (const row of rows) {
+      const label = row.label.toLowerCase();
+      const lineMatch = label.match(/(over|under)\s*(\d+(?:\.\d+)?)/) || label.match(/(\d+\.5)\s*(\+)/);
+      if (!lineMatch) continue;
+
+      const isUnder = lineMatch[1] === 'under';
+      const line = parseFloat(isUnder || lineMatch[1] === 'over' ? lineMatch[2] : lineMatch[1]);
+      const scope: GamesLadderEntry['scope'] = /\bset\b/.test(label) ? 'set' : 'match';
+      const key = scope + ':' + line;
+      if (isUnder && ladder[key] && !fromUnder.has(key)) continue;
+
+      const p1 = pct(row.p1Full, row.p1);
+      const p2 = pct(row.p2Full, row.p2);
+      const combined = pct(row.total, row.total);
+      const over = (v: number | null) => (v === null ? null : 100 - v);
+      ladder[key] = isUnder
+        ? { scope, line, p1OverPct: over(p1), p2OverPct: over(p2), combinedOverPct: over(combined) }
+        : { scope, line, p1OverPct: p1, p2OverPct: p2, combinedOverPct: combined };
+      if (isUnder) fromUnder.add(key);
+      else fromUnder.delete(key);
+    }
+  }
+
+  return ladder;
+}
+
+/**
+ * Parse the H2H match history rows.
+ * Filters to valid H2H entries only (score format "X-Y" with a winner).
+ */
+export function parseMatchHistory(input: string | Document): H2HData['matchHistory'] {
+  const doc = toDocument(input);
+  const matchHistory: H2HData['matchHistory'] = [];
+  const stripTags = (s: string) => s.replace(/<[^>]+>/g, '').trim();
+
+  doc.querySelectorAll('.h2h-history-row').forEach(row => {
+    const children = Array.from(row.children) as Element[];
+    if (children.length < 5) return;
+
+    const dateParts = children[0].innerHTML.split(/<br\s*\/?>/i);
+    const dateStr = dateParts.map(stripTags).filter(Boolean).join(' ');
+    if (!dateStr) return;
+
+    const tourneyParts = children[1].innerHTML.split(/<br\s*\/?>/i);
+    const tournament = tourneyParts[0] ? stripTags(tourneyParts[0]) : '';
+    let surface = 'Hard';
+    if (tourneyParts.length > 1) {
+      const surfaceText = stripTags(tourneyParts.slice(1).join(' ')).toLowerCase();
+      if (surfaceText.includes('clay')) surface = 'Clay';
+      else if (surfaceText.includes('grass')) surface = 'Grass';
+    }
+
+    const scoreEl = children[3];
+    const scoreSpans = scoreEl.querySelectorAll('span');
+    let score = '';
+    if (scoreSpans.length >= 2) {
+      score = (scoreSpans[0].textContent || '').trim() + '-' + (scoreSpans[1].textContent || '').trim();
+    } else {
+      const raw = (scoreEl.textContent || '').replace(/\s+/g, '').trim();
+      if (raw.length === 2 && /^\d{2}$/.test(raw)) {
+        score = raw[0] + '-' + raw[1];
+      } else {
+        score = raw;
+      }
+    }
+
+    let winner = '';
+    if (children[2]?.classList?.contains('winner')) {
+      winner = collapse(children[2].textContent);
+    } else if (children[4]?.classList?.contains('winner')) {
+      winner = collapse(children[4].textContent);
+    }
+
+    if (/^\d+-\d+$/.test(score) && winner) {
+      matchHistory.push({ date: dateStr, tournament, surface, winner, score });
+    }
+  });
+
+  return matchHistory;
+}
+
+/**
+ * Extract the Win %, Aces, Double Faults, Breaks, Tie Break and Match Total Games
+ * sections from one section map (default view or a single period tab).
+ */
+export function parseStatSections(sectionMap: Map<string, SectionRow[]>): H2HPeriodStats {
+  const findAny = (heading: string, labels: string[]) => findAnyValue(sectionMap, heading, labels);
+  const first = (heading: string) => getFirstRow(sectionMap, heading);
+
+  const gamesLadder = parseGamesLadder(sectionMap);
+  const overPct = (line: number) => gamesLadder['match:' + line]?.combinedOverPct ?? null;
+
+  // Win Percentage — every labelled row; match wins falls back to the first row
+  const matchWinsRow = findAny('Win Percentage', ['Match Wins', 'Matches Won', 'Match Win']);
+  const winPctRow = matchWinsRow !== EMPTY_ROW ? matchWinsRow : first('Win Percentage');
+  const straightSetsRow = findAny('Win Percentage', ['Straight Sets']);
+  const fromBehindRow = findAny('Win Percentage', ['From Behind', 'Comeback', 'After Losing']);
+  const set1Row = findAny('Win Percentage', ['1st Set', 'Set 1', 'First Set']);
+  const set2Row = findAny('Win Percentage', ['2nd Set', 'Set 2', 'Second Set']);
+  const set3Row = findAny('Win Percentage', ['3rd Set', 'Set 3', 'Third Set']);
+
+  // Other stat sections — first row from each
+  const acesRow = first('Aces');
+  const dfRow = first('Double Faults');
+  const brRow = first('Break');
+  const tbRow = first('Tie Break');
+  const avgGamesRow = findAny('Match Total Games', ['Per Set', 'Average', 'Avg']);
+  const gamesRow = avgGamesRow !== EMPTY_ROW ? avgGamesRow : first('Match Total Games');
+
+  return {
+    p1MatchWinsPct: parsePct(winPctRow.p1Full || winPctRow.p1),
+    p2MatchWinsPct: parsePct(winPctRow.p2Full || winPctRow.p2),
+    p1StraightSetsPct: parsePct(straightSetsRow.p1Full || straightSetsRow.p1),
+    p2StraightSetsPct: parsePct(straightSetsRow.p2Full || straightSetsRow.p2),
+    p1WinsFromBehindPct: parsePct(fromBehindRow.p1Full || fromBehindRow.p1),
+    p2WinsFromBehindPct: parsePct(fromBehindRow.p2Full || fromBehindRow.p2),
+    p1Set1WinPct: parsePct(set1Row.p1Full || set1Row.p1),
+    p2Set1WinPct: parsePct(set1Row.p2Full || set1Row.p2),
+    p1Set2WinPct: parsePct(set2Row.p1Full || set2Row.p1),
+    p2Set2WinPct: parsePct(set2Row.p2Full || set2Row.p2),
+    p1Set3WinPct: parsePct(set3Row.p1Full || set3Row.p1),
+    p2Set3WinPct: parsePct(set3Row.p2Full || set3Row.p2),
+    p1AcesPerMatch: parseNum(acesRow.p1),
+    p2AcesPerMatch: parseNum(acesRow.p2),
+    acesMatchTotal: parseNum(acesRow.total),
+    p1DoubleFaultsPerMatch: parseNum(dfRow.p1),
+    p2DoubleFaultsPerMatch: parseNum(dfRow.p2),
+    doubleFaultsMatchTotal: parseNum(dfRow.total),
+    p1BreaksPerMatch: parseNum(brRow.p1),
+    p2BreaksPerMatch: parseNum(brRow.p2),
+    breaksMatchTotal: parseNum(brRow.total),
+    p1TiebreaksPerMatch: parseNum(tbRow.p1),
+    p2TiebreaksPerMatch: parseNum(tbRow.p2),
+    tiebreaksAverage: parseNum(tbRow.total),
+    p1AvgGamesPerSet: parseNum(gamesRow.p1),
+    p2AvgGamesPerSet: parseNum(gamesRow.p2),
+    avgGamesPerSet: parseNum(gamesRow.total),
+    gamesOver20_5Pct: overPct(20.5),
+    gamesOver21_5Pct: overPct(21.5),
+    gamesOver22_5Pct: overPct(22.5),
+    gamesOver23_5Pct: overPct(23.5),
+    gamesOver24_5Pct: overPct(24.5),
+    gamesLadder,
+  };
+}
+
+/** Widgets only premium sessions get; logged-out pages only show the header and history */
+const PREMIUM_HEADINGS = ['win percentage', 'aces', 'match total games'];
+
+/**
+ * Premium-only widgets (win %, serve, games) rendered. Decided by their headings,
+ * not their numbers: a sparse page — a debutant with no Calendar Year data, a real
+ * 0 — is still a premium page.
+ */
+export function hasPremiumStats(input: string | Document): boolean {
+  const headings = Array.from(buildSectionMap(input).keys()).map(h => h.toLowerCase());
+  return PREMIUM_HEADINGS.some(premium => headings.some(h => h.includes(premium)));
+}
+
+/**
+ * Parse a full H2H detail page. Returns null when the H1 has no "A vs B" title.
+ */
+export function parseH2HPage(input: string | Document, url: string): H2HData | null {
+  const doc = toDocument(input);
+  const sectionMap = buildSectionMap(doc);
+  const find = (heading: string, label: string) => findValue(sectionMap, heading, label);
+
+  // Extract player names from H1
+  const h1 = doc.querySelector('h1')?.textContent || '';
+  const vsMatch = h1.match(/(.+?)\s+vs\.?\s+(.+?)(?:\s+Head|\s+H2H|\s+Stats|\s*$)/i);
+  if (!vsMatch) return null;
+
+  const player1 = vsMatch[1].trim();
+  const player2 = vsMatch[2].trim();
+  const h2hKey = h2hSlug(url) || `${player1}-vs-${player2}`;
+
+  // Full Stats section
+  const rankRow = find('Full Stats', 'Current Rank');
+  const winsRow = find('Full Stats', 'Wins');
+  const setsRow = find('Full Stats', 'Sets Won');
+  const cyRow = findAnyValue(sectionMap, 'Full Stats', ['Win Percentage', 'Calendar Year']);
+  const l12mRow = findAnyValue(sectionMap, 'Full Stats', ['Last 12', '12 Month']);
+
+  const matchHistory = parseMatchHistory(doc);
+  const periods: Record<string, H2HPeriodStats> = {};
+  for (const period of listPeriods(doc)) {
+    periods[period] = parseStatSections(buildSectionMap(doc, period));
+  }
+
+  return {
+    h2hKey,
+    player1,
+    player2,
+    category: player1.includes('/') && player2.includes('/') ? 'Doubles' : 'Singles',
+    p1Rank: parseNum(rankRow.p1),
+    p2Rank: parseNum(rankRow.p2),
+    p1H2HWins: parseNum(winsRow.p1),
+    p2H2HWins: parseNum(winsRow.p2),
+    p1H2HSets: parseNum(setsRow.p1),
+    p2H2HSets: parseNum(setsRow.p2),
+    p1CalendarYearWinPct: parsePct(cyRow.p1Full || cyRow.p1),
+    p1CalendarYearRecord: cyRow.p1Full || cyRow.p1 || '',
+    p2CalendarYearWinPct: parsePct(cyRow.p2Full || cyRow.p2),
+    p2CalendarYearRecord: cyRow.p2Full || cyRow.p2 || '',
+    p1Last12mWinPct: parsePct(l12mRow.p1Full || l12mRow.p1),
+    p1Last12mRecord: l12mRow.p1Full || l12mRow.p1 || '',
+    p2Last12mWinPct: parsePct(l12mRow.p2Full || l12mRow.p2),
+    p2Last12mRecord: l12mRow.p2Full || l12mRow.p2 || '',
+    matchHistory,
+    ...parseStatSections(sectionMap),
+    periods,
+  };
+}
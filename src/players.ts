@@ -0,0 +1,166 @@
+/**
+ * Canonical Player Registry
+ *
+ * The same player shows up as the homepage link text, the H2H page H1 and the
+ * history `winner` cell, with different accents, initials and word order.
+ * Every H2H URL names both players by slug ("jannik-sinner-vs-carlos-alcaraz"),
+ * so the slug is the player id and each scraped name is resolved against the
+ * two slugs of the page it came from. Resolved spellings are kept as aliases.
+ *
+ * The live registry is loaded from `tennis_players` at startup (see setPlayerRegistry).
+ */
+
+import { h2hSlug } from './parsers';
+import { Player } from './types';
+
+/** Lowercase, accents stripped, punctuation to spaces: "Félix Auger-Aliassime" → "felix auger aliassime" */
+export function normaliseName(name: string): string {
+  return (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/** The two player slugs of an H2H URL or key, in URL order */
+export function playerSlugs(h2hUrlOrKey: string): [string, string] | null {
+  const slug = h2hSlug(h2hUrlOrKey) || h2hUrlOrKey;
+  const parts = slug.split('-vs-');
+  return parts.length === 2 && parts[0] && parts[1] ? [parts[0], parts[1]] : null;
+}
+
+/** "jannik-sinner" → "Jannik Sinner", for players first seen only as a slug */
+function nameFromSlug(slug: string): string {
+  return slug.split('-').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+}
+
+/**
+ * How well a name fits a slug, order-insensitive: full words must appear in the
+ * slug, single letters ("C." in "C. Alcaraz") must start one of its words.
+ * 0 when any word doesn't fit; otherwise the number of full words matched.
+ */
+export function nameMatchScore(name: string, slug: string): number {
+  const words = normaliseName(name).split(' ').filter(Boolean);
+  const slugWords = slug.split('-');
+  if (words.length === 0) return 0;
+
+  let full = 0;
+  for (const word of words) {
+    if (word.length === 1) {
+      if (!slugWords.some(w => w.startsWith(word))) return 0;
+    } else if (slugWords.includes(word)) {
+      full++;
+    } else {
+      return 0;
+    }
+  }
+  return full;
+}
+
+export class PlayerRegistry {
+  private players = new Map<string, Player>();
+  private aliases = new Map<string, string>(); // normalised alias → id
+  private changed = new Set<string>();
+
+  constructor(players: Player[] = []) {
+    for (const p of players) {
+      this.players.set(p.id, p);
+      for (const alias of [p.name, ...p.aliases]) this.aliases.set(normaliseName(alias), p.id);
+    }
+  }
+
+  get size(): number {
+    return this.players.size;
+  }
+
+  get(id: string): Player | undefined {
+    return this.players.get(id);
+  }
+
+  /** Players created or given a new alias since the last call — the rows to upsert */
+  takeChanged(): Player[] {
+    const changed = Array.from(this.changed).map(id => this.players.get(id)!);
+    this.changed.clear();
+    return changed;
+  }
+
+  /**
+   * Resolve a scraped name to one of `candidates` (player ids from the page's URL).
+   * A known alias wins, then the best word match; null when neither fits.
+   */
+  resolve(name: string, candidates: string[]): string | null {
+    const known = this.aliases.get(normaliseName(name));
+    if (known && candidates.includes(known)) return known;
+
+    let best: string | null = null;
+    let bestScore = 0;
+    for (const id of candidates) {
+      const score = nameMatchScore(name, id);
+      if (score > bestScore) {
+        best = id;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Ids for the two names on an H2H URL. When only one name resolves the other
+   * gets the remaining slug, and both players are registered with the names as
+   * aliases. When neither resolves the pair is unknown: null, and nothing is
+   * registered — guessing URL order would store a swapped pair as permanent aliases.
+   */
+  resolvePair(
+    h2hUrl: string,
+    name1: string,
+    name2: string,
+    gender: Player['gender'] = null
+  ): [string, string] | null {
+    const slugs = playerSlugs(h2hUrl);
+    if (!slugs) return null;
+
+    let id1 = this.resolve(name1, slugs);
+    let id2 = this.resolve(name2, slugs.filter(s => s !== id1));
+    if (id1 && !id2) id2 = slugs.find(s => s !== id1)!;
+    if (!id1 && id2) id1 = slugs.find(s => s !== id2)!;
+    if (!id1 || !id2) return null;
+
+    this.register(id1, name1, gender);
+    this.register(id2, name2, gender);
+    return [id1, id2];
+  }
+
+  private register(id: string, name: string, gender: Player['gender']): void {
+    let player = this.players.get(id);
+    if (!player) {
+      // "Sinner J." is a fine alias but a poor display name
+      const abbreviated = !name || normaliseName(name).split(' ').some(w => w.length === 1);
+      player = { id, name: abbreviated ? nameFromSlug(id) : name, aliases: [], gender, nationality: null };
+      this.players.set(id, player);
+      this.changed.add(id);
+    }
+    if (!player.gender && gender) {
+      player.gender = gender;
+      this.changed.add(id);
+    }
+
+    const alias = normaliseName(name);
+    if (alias && !this.aliases.has(alias)) {
+      this.aliases.set(alias, id);
+      if (name !== player.name && !player.aliases.includes(name)) player.aliases.push(name);
+      this.changed.add(id);
+    }
+  }
+}
+
+let registry = new PlayerRegistry();
+
+/** Replace the in-memory registry (e.g. with rows loaded from Supabase) */
+export function setPlayerRegistry(players: Player[]): void {
+  registry = new PlayerRegistry(players);
+}
+
+export function getPlayerRegistry(): PlayerRegistry {
+  return registry;
+}
@@ -0,0 +1,99 @@
+/**
+ * Adaptive token-bucket rate limiter
+ *
+ * Shared by all H2H workers so the request rate is global, not per page.
+ * Additive increase / multiplicative decrease: every clean response nudges the
+ * rate up towards `maxRatePerSec`; every block or error halves it, and a run of
+ * consecutive bad responses also pauses everyone for `cooldownMs`.
+ */
+
+export interface RateLimiterOptions {
+  ratePerSec: number;       // starting rate
+  minRatePerSec: number;
+  maxRatePerSec: number;
+  burst?: number;           // bucket capacity (default 1 — no bursts)
+  increaseStep?: number;    // added to the rate after each clean response (default 10% of the starting rate)
+  cooldownAfter?: number;   // consecutive bad responses before a pause (default 3)
+  cooldownMs?: number;      // pause length (default 30s)
+}
+
+function sleep(ms: number) {
+  return new Promise(r => setTimeout(r, ms));
+}
+
+export class AdaptiveRateLimiter {
+  private rate: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private consecutiveBad = 0;
+  private queue: Promise<void> = Promise.resolve();
+  private readonly burst: number;
+  private readonly increaseStep: number;
+  private readonly cooldownAfter: number;
+  private readonly cooldownMs: number;
+
+  constructor(private options: RateLimiterOptions) {
+    this.rate = options.ratePerSec;
+    this.burst = options.burst ?? 1;
+    this.tokens = this.burst;
+    this.increaseStep = options.increaseStep ?? options.ratePerSec * 0.1;
+    this.cooldownAfter = options.cooldownAfter ?? 3;
+    this.cooldownMs = options.cooldownMs ?? 30000;
+  }
+
+  get currentRate(): number {
+    return this.rate;
+  }
+
+  /** Resolves when the caller may send one request. Callers are served in order. */
+  acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.take());
+    this.queue = turn.catch(() => {});
+    return turn;
+  }
+
+  /** Clean response: speed up a little */
+  reportSuccess(): void {
+    this.consecutiveBad = 0;
+    this.rate = Math.min(this.options.maxRatePerSec, this.rate + this.increaseStep);
+  }
+
+  /** Block, challenge or error: halve the rate, and pause after a run of them */
+  reportFailure(): void {
+    this.consecutiveBad++;
+    this.rate = Math.max(this.options.minRatePerSec, this.rate / 2);
+    this.tokens = Math.min(this.tokens, 0);
+
+    if (this.consecutiveBad >= this.cooldownAfter) {
+      this.pausedUntil = Date.now() + this.cooldownMs;
+      this.consecutiveBad = 0;
+      console.warn(`[RateLimit] ${this.cooldownAfter} bad responses in a row — pausing ${this.cooldownMs / 1000}s`);
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.rate);
+    this.lastRefill = now;
+  }
+
+  private async take(): Promise<void> {
+    for (;;) {
+      const pause = this.pausedUntil - Date.now();
+      if (pause > 0) {
+        await sleep(pause);
+        continue;
+      }
+
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(((1 - this.tokens) / this.rate) * 1000);
+    }
+  }
+}
+
+export default AdaptiveRateLimiter;
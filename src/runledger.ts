@@ -0,0 +1,105 @@
+/**
+ * Scrape Run Ledger
+ *
+ * Collects what one runner invocation did — per-phase match counts, H2H outcomes
+ * by error kind, how often each H2H field came back populated, and which
+ * tournament names were skipped — and turns it into a scrape_runs row.
+ * The run id is created up front so every row written during the run can carry it.
+ */
+
+import { randomUUID } from 'crypto';
+import { ErrorTally, ScrapeErrorKind } from './errors';
+import { H2HData } from './types';
+
+export interface PhaseMetrics {
+  seen: number;       // rows found on the page(s)
+  filtered: number;   // rows left after tournament / freshness / CLI filters
+  saved: number;      // rows written
+}
+
+export interface ScrapeRunRecord {
+  id: string;
+  command: string;
+  status: 'running' | 'completed' | 'failed';
+  startedAt: string;
+  finishedAt: string | null;
+  account: string | null;
+  phases: Record<string, PhaseMetrics>;
+  h2hSuccesses: number;
+  h2hFailures: Record<ScrapeErrorKind, number>;
+  h2hFailureSamples: Partial<Record<ScrapeErrorKind, string[]>>;
+  fieldPopulation: Record<string, number>;  // H2HData field → share of scraped pages where it was populated
+  skippedTournaments: string[];
+  error: string | null;
+}
+
+/** Identity fields are always present, so they say nothing about page health */
+const IDENTITY_FIELDS = new Set(['h2hKey', 'player1', 'player2', 'category']);
+
+/** Parsers report a missing number as null, so any number — 0 included — was on the page */
+function isPopulated(value: unknown): boolean {
+  if (typeof value === 'number') return !isNaN(value);
+  if (typeof value === 'string') return value.trim() !== '';
+  if (Array.isArray(value)) return value.length > 0;
+  if (value && typeof value === 'object') return Object.keys(value).length > 0;
+  return false;
+}
+
+export class RunLedger {
+  readonly id = randomUUID();
+  readonly startedAt = new Date().toISOString();
+  readonly h2hErrors = new ErrorTally();
+  account: string | null = null;
+
+  private phases: Record<string, PhaseMetrics> = {};
+  private h2hSuccesses = 0;
+  private fieldCounts: Record<string, number> = {};
+  private skipped = new Set<string>();
+
+  constructor(readonly command: string) {}
+
+  /** Add to a phase's counts (phases run more than once, e.g. live polls, accumulate) */
+  phase(name: string, metrics: Partial<PhaseMetrics>): void {
+    const current = this.phases[name] || (this.phases[name] = { seen: 0, filtered: 0, saved: 0 });
+    current.seen += metrics.seen || 0;
+    current.filtered += metrics.filtered || 0;
+    current.saved += metrics.saved || 0;
+  }
+
+  recordH2H(data: H2HData): void {
+    this.h2hSuccesses++;
+    for (const [field, value] of Object.entries(data)) {
+      if (IDENTITY_FIELDS.has(field)) continue;
+      this.fieldCounts[field] = (this.fieldCounts[field] || 0) + (isPopulated(value) ? 1 : 0);
+    }
+  }
+
+  skipTournaments(names: string[]): void {
+    for (const name of names) this.skipped.add(name);
+  }
+
+  toRecord(status: ScrapeRunRecord['status'], error: string | null = null): ScrapeRunRecord {
+    const fieldPopulation: Record<string, number> = {};
+    for (const [field, count] of Object.entries(this.fieldCounts)) {
+      fieldPopulation[field] = Math.round((count / this.h2hSuccesses) * 100) / 100;
+    }
+
+    return {
+      id: this.id,
+      command: this.command,
+      status,
+      startedAt: this.startedAt,
+      finishedAt: status === 'running' ? null : new Date().toISOString(),
+      account: this.account,
+      phases: this.phases,
+      h2hSuccesses: this.h2hSuccesses,
+      h2hFailures: this.h2hErrors.counts,
+      h2hFailureSamples: this.h2hErrors.samples,
+      fieldPopulation,
+      skippedTournaments: Array.from(this.skipped).sort(),
+      error,
+    };
+  }
+}
+
+export default RunLedger;
@@ -1,176 +1,650 @@
 /**
  * TennisStats Scraper — Premium Cookie Mode v2
- * 
+ *
  * Features:
  * - Tournament filter (only Grand Slams, Masters 1000, ATP/WTA 500+)
  * - Comprehensive H2H extraction (all stats tables)
  * - Past 7 days homepage scraping for tournament path
  * - Cookie-based Cloudflare bypass
+ * - Alerts (webhook / Slack / email) on expired cookies, blocks and empty slates
+ *
+ * Commands (see cli.ts / `node dist/runner.js help`):
+ *   daily (default), live, h2h <url|key>, backfill, tournaments check <name>, results
  */
 
+import * as fs from 'fs';
 import TennisStatsScraper from './scraper';
 import TennisStatsDB from './database';
-import { filterSupportedMatches } from './tournaments';
+import DryRunDB from './dryrun';
+import { JsonlStorage, SqliteStorage } from './localstore';
+import { StorageBackend, STORAGE_BACKENDS, TennisStorage } from './storage';
+import { runBackfill } from './backfill';
+import { AdaptiveRateLimiter } from './ratelimit';
+import { applyFreshness } from './freshness';
+import { DEFAULT_PROBE_URL, SessionManager } from './sessions';
+import { classifyError, ERROR_HINTS, ErrorTally, ScrapeError, withRetry } from './errors';
+import { RunLedger } from './runledger';
+import { Notifier, blockedAlert, emptySlateAlert, getNotifier, h2hErrorRateAlert, notifierFromEnv, setNotifier } from './notifier';
+import { setPlayerRegistry } from './players';
+import { todayInZone } from './schedule';
+import { CliCommand, CliOptions, parseCli, requireDateRange, USAGE } from './cli';
+import { DailyMatch, H2HData } from './types';
+import {
+  filterSupportedMatches,
+  reportUnmatchedTournaments,
+  resolveTournament,
+  setTournamentRegistry,
+  tournamentsInPlay,
+  validateTournamentRegistry,
+  SUPPORTED_TOURNAMENTS,
+} from './tournaments';
 
 const SUPABASE_URL = process.env.SUPABASE_URL || '';
 const SUPABASE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY || '';
 
-const DELAY_MS = 3000; // Delay between H2H page requests
 const DAYS_BACK = 0;   // How many past days to scrape for tournament path
+const RESULTS_DAYS_BACK = 1; // How many past days to revisit for final scores
+const LIVE_POLL_MS = 30000;      // Live mode: delay between homepage polls
+const LIVE_MAX_MINUTES = 240;    // Live mode: hard stop for one invocation
+const LIVE_IDLE_POLLS = 10;      // Live mode: stop after this many polls with nothing in play
+const ACCOUNT_MAX_FAILURES = 3; // Deactivate an account after this many blocked checks in a row
+const H2H_FAILURES_BEFORE_CHECK = 3; // Consecutive empty H2H pages before the session is re-validated
+const H2H_TTL_HOURS = Number(process.env.H2H_TTL_HOURS || 12); // Skip H2H pages scraped more recently than this
+const ALERT_H2H_ERROR_RATE = Number(process.env.ALERT_H2H_ERROR_RATE || 0.3); // Alert when more H2H pages than this fail
+const ALERT_H2H_MIN_PAGES = 5;   // ...out of at least this many attempted
 
 function sleep(ms: number) {
   return new Promise(r => setTimeout(r, ms));
 }
 
-function getDateString(daysAgo: number): string {
-  const d = new Date();
-  d.setDate(d.getDate() - daysAgo);
+function addDays(date: string, days: number): string {
+  const d = new Date(date + 'T00:00:00Z');
+  d.setUTCDate(d.getUTCDate() + days);
   return d.toISOString().split('T')[0];
 }
 
-async function run() {
+/**
+ * The site's date `daysAgo` days back (YYYY-MM-DD). The homepage's "today" is the
+ * site timezone's — the same date schedule.ts resolves start times against — so
+ * match_date / match_key never land on the neighbouring UTC day around midnight.
+ */
+function siteDate(scraper: TennisStatsScraper, session: SessionManager, daysAgo = 0): string {
+  return addDays(todayInZone(scraper.siteTimeZone(session.cookies)), -daysAgo);
+}
+
+function banner(title: string) {
   console.log('═══════════════════════════════════════════════════════');
-  console.log('  TennisStats Scraper v2 — Premium Cookie Mode');
+  console.log('  ' + title);
   console.log('  ' + new Date().toISOString());
   console.log('═══════════════════════════════════════════════════════\n');
+}
+
+/**
+ * Open the storage picked by --storage / $STORAGE_BACKEND (Supabase by default),
+ * wrapped so writes are only printed on --dry-run.
+ */
+function openStorage(options: CliOptions): TennisStorage {
+  const envBackend = (process.env.STORAGE_BACKEND || '').toLowerCase() as StorageBackend;
+  if (envBackend && !STORAGE_BACKENDS.includes(envBackend)) {
+    throw new Error('STORAGE_BACKEND must be ' + STORAGE_BACKENDS.join(', ') + ', got "' + envBackend + '"');
+  }
+  const backend = options.storage || envBackend || 'supabase';
+  const storagePath = options.storagePath || process.env.STORAGE_PATH;
+
+  let storage: TennisStorage;
+  if (backend === 'sqlite' || backend === 'jsonl') {
+    storage = backend === 'sqlite' ? new SqliteStorage(storagePath || 'tennisstats.db') : new JsonlStorage(storagePath || 'data');
+  } else if (options.dryRun) {
+    // Placeholder credentials let `--dry-run --cookies-file` work without any Supabase project;
+    // reads then fail softly and the built-in defaults are used.
+    storage = new TennisStatsDB(SUPABASE_URL || 'http://localhost:54321', SUPABASE_KEY || 'dry-run');
+  } else {
+    storage = new TennisStatsDB(SUPABASE_URL, SUPABASE_KEY);
+  }
+  return options.dryRun ? new DryRunDB(storage) : storage;
+}
+
+/**
+ * Load the tournament registry from storage, seeding it with the built-in
+ * defaults the first time. Falls back to the defaults if the table can't be read.
+ */
+async function loadTournaments(db: TennisStorage): Promise<void> {
+  let tournaments = await db.getTournaments();
+
+  if (tournaments && tournaments.length === 0) {
+    console.log('   Tournament registry empty — seeding defaults');
+    await db.seedTournaments(SUPPORTED_TOURNAMENTS);
+    tournaments = SUPPORTED_TOURNAMENTS;
+  }
+  if (!tournaments) {
+    console.warn('   ⚠ Using built-in tournament list');
+    tournaments = SUPPORTED_TOURNAMENTS;
+  }
+
+  for (const problem of validateTournamentRegistry(tournaments)) {
+    console.warn('   ⚠ Registry: ' + problem);
+  }
+  setTournamentRegistry(tournaments);
+  console.log('   ✓ ' + tournaments.length + ' tournaments in registry');
+}
+
+/** Load the canonical player registry so scraped names resolve to existing ids and aliases */
+async function loadPlayers(db: TennisStorage): Promise<void> {
+  const players = await db.getPlayers();
+  setPlayerRegistry(players);
+  console.log('   ✓ ' + players.length + ' players in registry');
+}
+
+/**
+ * Cookies from --cookies-file, else the first active tennisstats_accounts row that validates.
+ * Throws when no account works, so the run is closed as failed in scrape_runs.
+ */
+async function openSession(scraper: TennisStatsScraper, db: TennisStorage, options: CliOptions): Promise<SessionManager> {
+  console.log('🔑 Loading Premium account cookies...');
+  const session = new SessionManager(scraper, db, {
+    probeUrl: process.env.TENNISSTATS_PROBE_URL || DEFAULT_PROBE_URL,
+    maxFailures: ACCOUNT_MAX_FAILURES,
+  });
+
+  if (options.cookiesFile) {
+    const cookies = fs.readFileSync(options.cookiesFile, 'utf8');
+    if (!Array.isArray(JSON.parse(cookies))) throw new Error(options.cookiesFile + ' is not a JSON cookie array');
+    await session.useFixed(cookies);
+    console.log('   ✓ Loaded cookies from: ' + options.cookiesFile);
+    return session;
+  }
+
+  if (!await session.start()) {
+    throw new Error('No working premium account! Please export fresh cookies from your browser.');
+  }
+  console.log('   ✓ Loaded cookies for: ' + session.username);
+  return session;
+}
+
+/**
+ * Apply --tiers / --gender / --category to matches that already went through filterSupportedMatches.
+ * Only narrows what gets scraped: days are always saved whole, since upsertDailyMatches
+ * flags every row of the day that isn't in the list as removed.
+ */
+function narrow<T extends DailyMatch>(matches: T[], options: CliOptions): T[] {
+  return matches.filter(m =>
+    (!options.tiers || options.tiers.includes(m.tournamentTier || '')) &&
+    (!options.gender || m.gender === options.gender) &&
+    (!options.category || m.category === options.category)
+  );
+}
 
-  const scraper = new TennisStatsScraper();
-  const db = new TennisStatsDB(SUPABASE_URL, SUPABASE_KEY);
+function shortName(match: DailyMatch): string {
+  return match.player1.name.split(' ').pop() + ' vs ' + match.player2.name.split(' ').pop();
+}
 
+/**
+ * Homepage for the follow-up phases (past days, results, live polls). A Cloudflare
+ * block is alerted and returns null so the rest of the run still happens; Phase 1
+ * calls the scraper directly, since a run without today's matches has nothing to do.
+ */
+async function scrapeHomepageOrSkip(scraper: TennisStatsScraper, session: SessionManager, date: string | undefined, ledger: RunLedger): Promise<DailyMatch[] | null> {
   try {
-    await scraper.init();
+    return await scraper.scrapeDailyMatches(date, session.cookies);
+  } catch (raw) {
+    const err = classifyError(raw);
+    if (err.kind !== 'blocked') throw err;
+    console.log('   ⚠ ' + (date || 'homepage') + ' — blocked: ' + err.message);
+    await getNotifier().notify(blockedAlert(err.url || '', ledger.command));
+    return null;
+  }
+}
 
-    // ── Step 1: Load cookies ────────────────────────────────────
-    console.log('🔑 Loading Premium account cookies...');
-    const account = await db.getActiveAccount();
+/**
+ * Scrape and save H2H pages with `options.concurrency` workers, each on its own
+ * pooled page, sharing one adaptive rate limiter. The limiter starts at one request
+ * per `delayMs` per worker, backs off on blocks/timeouts and speeds up (to 3x) on clean pages.
+ * Each failure is retried per its kind (errors.ts). A run of blocked/auth failures
+ * re-validates the session, which may rotate to another account; stops early when
+ * no working account is left.
+ */
+async function scrapeH2HPages(
+  scraper: TennisStatsScraper,
+  db: TennisStorage,
+  session: SessionManager,
+  matches: DailyMatch[],
+  options: CliOptions,
+  ledger: RunLedger
+): Promise<{ successCount: number; errors: ErrorTally; sessionLost: boolean }> {
+  let successCount = 0;
+  const errors = ledger.h2hErrors;
+  let sessionLost = false;
+  let next = 0;
+  let consecutiveFailures = 0;
+
+  const baseRate = (options.concurrency * 1000) / options.delayMs;
+  const limiter = new AdaptiveRateLimiter({
+    ratePerSec: baseRate,
+    minRatePerSec: 1000 / (options.delayMs * 10),
+    maxRatePerSec: baseRate * 3,
+    burst: options.concurrency,
+  });
+  const pool = scraper.createPagePool(options.concurrency, () => session.cookies);
+
+  /** One attempt on a pooled page; the page is replaced if the browser side broke */
+  const attempt = async (match: DailyMatch): Promise<H2HData> => {
+    await limiter.acquire();
+    const page = await pool.acquire();
+    let broken = false;
+    try {
+      return await scraper.scrapeH2HOnPage(page, match.h2hUrl, match.surface);
+    } catch (raw) {
+      const err = classifyError(raw, match.h2hUrl);
+      if (err.kind === 'blocked' || err.kind === 'timeout') limiter.reportFailure();
+      broken = err.kind === 'timeout';
+      throw err;
+    } finally {
+      await pool.release(page, broken);
+    }
+  };
+
+  /** Blocks and missing premium data point at the account, so re-check it after a run of them */
+  const onSessionFailure = async () => {
+    if (++consecutiveFailures < H2H_FAILURES_BEFORE_CHECK) return;
+
+    consecutiveFailures = 0;
+    const generation = session.generation;
+    if (!await session.handleBlocked()) {
+      console.error('\n❌ No working premium account left! Please re-export cookies from browser.');
+      sessionLost = true;
+    } else if (session.generation !== generation) {
+      console.log('   ↻ Switched to ' + session.username);
+      await pool.recycle();
+    }
+  };
+
+  const worker = async () => {
+    while (!sessionLost && next < matches.length) {
+      const i = next++;
+      const match = matches[i];
+      const label = '[' + (i + 1) + '/' + matches.length + '] ' + shortName(match);
+      const tournamentLabel = match.tournamentOfficialName || match.tournament;
+      const onRetry = (err: ScrapeError, n: number, waitMs: number) =>
+        console.log('   ↻ ' + label + ' — ' + err.kind + ', retry ' + n + ' in ' + Math.round(waitMs / 1000) + 's');
 
-    if (!account || !account.session_cookies) {
-      console.error('❌ No cookies found! Please export cookies from your browser.');
-      process.exit(1);
+      try {
+        const h2hData = await withRetry(() => attempt(match), onRetry);
+        limiter.reportSuccess();
+        consecutiveFailures = 0;
+        await withRetry(() => db.upsertH2H(h2hData), onRetry);
+        ledger.recordH2H(h2hData);
+
+        // Log key stats
+        const statsFound = [
+          h2hData.p1H2HWins + h2hData.p2H2HWins > 0 ? 'H2H' : '',
+          h2hData.p1MatchWinsPct !== null ? 'Win%' : '',
+          h2hData.p1AcesPerMatch !== null ? 'Aces' : '',
+          h2hData.p1BreaksPerMatch !== null ? 'Breaks' : '',
+          h2hData.p1AvgGamesPerSet !== null ? 'Games' : '',
+          h2hData.p1DoubleFaultsPerMatch !== null ? 'DFs' : '',
+          h2hData.p1TiebreaksPerMatch !== null ? 'TBs' : '',
+          h2hData.matchHistory.length > 0 ? 'History(' + h2hData.matchHistory.length + ')' : '',
+          h2hData.periods[match.surface.toLowerCase()] ? match.surface : '',
+        ].filter(Boolean).join(', ');
+
+        console.log('   ✓ ' + label +
+          ' | ' + tournamentLabel +
+          ' | H2H: ' + h2hData.p1H2HWins + '-' + h2hData.p2H2HWins +
+          ' | Data: ' + statsFound);
+        successCount++;
+      } catch (raw) {
+        const err = classifyError(raw, match.h2hUrl);
+        errors.add(err);
+        console.log('   ✗ ' + label + ' — ' + err.kind + ': ' + err.message);
+        if (err.kind === 'blocked' || err.kind === 'auth') await onSessionFailure();
+      }
     }
-    console.log('   ✓ Loaded cookies for: ' + account.username);
+  };
 
-    // ── Step 2: Scrape today's homepage ─────────────────────────
-    console.log('\n📅 Phase 1: Scraping today\'s matches...');
-    const allMatches = await scraper.scrapeDailyMatches(undefined, account.session_cookies);
+  try {
+    await Promise.all(Array.from({ length: Math.min(options.concurrency, matches.length) }, worker));
+  } finally {
+    await pool.close();
+  }
+  console.log('   Rate limiter finished at ' + limiter.currentRate.toFixed(2) + ' req/s');
+  if (successCount > 0) await session.recordSuccess();
+  return { successCount, errors, sessionLost };
+}
 
-    // Filter to singles only
-    const singlesMatches = allMatches.filter(m => m.category === 'Singles');
-    console.log('   Total: ' + allMatches.length + ' matches, ' + singlesMatches.length + ' singles');
+// ─── Commands ────────────────────────────────────────────────────────────────
 
-    // Filter to supported tournaments only, exclude finished matches
-    const supportedMatches = filterSupportedMatches(singlesMatches)
-      .filter(m => m.status !== 'finished');
-    console.log('   Supported tournaments: ' + supportedMatches.length + ' matches (excluding finished)');
+async function runDaily(scraper: TennisStatsScraper, db: TennisStorage, session: SessionManager, options: CliOptions, ledger: RunLedger) {
+  const today = options.date || siteDate(scraper, session);
 
-    const today = getDateString(0);
-    await db.upsertDailyMatches(supportedMatches, today);
-    console.log('   ✓ Saved ' + supportedMatches.length + ' matches for ' + today);
+  // ── Step 1: Scrape the homepage ─────────────────────────────
+  console.log('\n📅 Phase 1: Scraping matches for ' + today + '...');
+  const allMatches = await scraper.scrapeDailyMatches(options.date, session.cookies);
 
-    // ── Step 3: Scrape past days for tournament path ────────────
-    console.log('\n📆 Phase 2: Scraping past ' + DAYS_BACK + ' days for tournament path...');
+  const doublesCount = allMatches.filter(m => m.category === 'Doubles').length;
+  console.log('   Total: ' + allMatches.length + ' matches (' + (allMatches.length - doublesCount) + ' singles, ' + doublesCount + ' doubles)');
 
-    for (let i = 1; i <= DAYS_BACK; i++) {
-      const pastDate = getDateString(i);
+  // Filter to supported tournaments only; CLI filters and the finished filter only pick what gets H2H pages
+  const supportedAll = filterSupportedMatches(allMatches, today);
+  const supportedMatches = narrow(supportedAll, options).filter(m => m.status !== 'finished');
+  console.log('   Supported tournaments: ' + supportedMatches.length + ' matches (excluding finished)');
 
-      // Check if we already have data for this date
-      const alreadyScraped = await db.hasMatchesForDate(pastDate);
+  const unmatched = reportUnmatchedTournaments(allMatches, today);
+  ledger.skipTournaments(unmatched.map(u => u.name));
+  if (unmatched.length > 0) {
+    console.log('   Unmatched tournament names:');
+    for (const u of unmatched) {
+      console.log('     · ' + u.name + ' (' + u.gender + ', ' + u.matchCount + ' matches) — ' + u.reason);
+    }
+  }
 
-      if (alreadyScraped) {
-        console.log('   ⏭ ' + pastDate + ' — already scraped');
-        continue;
-      }
+  // Nothing supported while the registry says an event is on: renamed tournament or a broken page
+  const inPlay = tournamentsInPlay(today);
+  if (supportedAll.length === 0 && inPlay.length > 0) {
+    await getNotifier().notify(emptySlateAlert(today, inPlay, allMatches.length));
+  }
 
-      const pastMatches = await scraper.scrapeDailyMatches(pastDate, account.session_cookies);
-      const pastSingles = pastMatches.filter(m => m.category === 'Singles');
-      const pastSupported = filterSupportedMatches(pastSingles);
+  // Finished matches are saved too so their scores land on the existing rows
+  await db.upsertDailyMatches(supportedAll, today);
+  const finishedCount = supportedAll.filter(m => m.status === 'finished').length;
+  console.log('   ✓ Saved ' + supportedAll.length + ' matches for ' + today + ' (' + finishedCount + ' finished)');
+  ledger.phase('homepage', { seen: allMatches.length, filtered: supportedAll.length, saved: supportedAll.length });
 
-      if (pastSupported.length > 0) {
-        await db.upsertDailyMatches(pastSupported, pastDate);
-        console.log('   ✓ ' + pastDate + ' — ' + pastSupported.length + ' matches saved');
-      } else {
-        console.log('   · ' + pastDate + ' — no supported matches');
-      }
+  // Odds are snapshotted before the finished filter so closing lines are kept too
+  await db.recordOddsSnapshots(supportedAll, today);
+
+  // ── Step 2: Scrape past days for tournament path ────────────
+  console.log('\n📆 Phase 2: Scraping past ' + DAYS_BACK + ' days for tournament path...');
 
-      await sleep(2000);
+  for (let i = 1; i <= DAYS_BACK; i++) {
+    const pastDate = addDays(today, -i);
+
+    // Check if we already have data for this date
+    const alreadyScraped = await db.hasMatchesForDate(pastDate);
+
+    if (alreadyScraped) {
+      console.log('   ⏭ ' + pastDate + ' — already scraped');
+      continue;
     }
 
-    // ── Step 4: Scrape H2H detail pages ─────────────────────────
-    const upcoming = supportedMatches.filter(m => m.status === 'upcoming' && m.h2hUrl);
-    console.log('\n🔍 Phase 3: Scraping ' + upcoming.length + ' H2H detail pages...');
+    const pastMatches = await scrapeHomepageOrSkip(scraper, session, pastDate, ledger);
+    if (!pastMatches) continue;
+    const pastSupported = filterSupportedMatches(pastMatches, pastDate);
+    ledger.phase('past_days', { seen: pastMatches.length, filtered: pastSupported.length, saved: pastSupported.length });
 
-    let successCount = 0;
-    let errorCount = 0;
-    let cookieExpired = false;
+    if (pastSupported.length > 0) {
+      await db.upsertDailyMatches(pastSupported, pastDate);
+      console.log('   ✓ ' + pastDate + ' — ' + pastSupported.length + ' matches saved');
+    } else {
+      console.log('   · ' + pastDate + ' — no supported matches');
+    }
 
-    for (let i = 0; i < upcoming.length; i++) {
-      const match = upcoming[i];
-      const shortName = match.player1.name.split(' ').pop() + ' vs ' + match.player2.name.split(' ').pop();
-      const tournamentLabel = match.tournamentOfficialName || match.tournament;
+    await sleep(2000);
+  }
 
-      try {
-        const h2hData = await scraper.scrapeH2HWithCookies(
-          match.h2hUrl,
-          account.session_cookies
-        );
-
-        if (h2hData === null) {
-          console.log('   ⚠ [' + (i + 1) + '/' + upcoming.length + '] ' + shortName + ' — no data');
-          errorCount++;
-
-          if (i < 3 && errorCount >= 3) {
-            console.error('\n❌ Cookies appear expired! Please re-export from browser.');
-            cookieExpired = true;
-            break;
-          }
-        } else {
-          await db.upsertH2H(h2hData);
-
-          // Log key stats
-          const statsFound = [
-            h2hData.p1H2HWins + h2hData.p2H2HWins > 0 ? 'H2H' : '',
-            h2hData.p1MatchWinsPct > 0 ? 'Win%' : '',
-            h2hData.p1AcesPerMatch > 0 ? 'Aces' : '',
-            h2hData.p1BreaksPerMatch > 0 ? 'Breaks' : '',
-            h2hData.p1AvgGamesPerSet > 0 ? 'Games' : '',
-            h2hData.p1DoubleFaultsPerMatch > 0 ? 'DFs' : '',
-            h2hData.p1TiebreaksPerMatch > 0 ? 'TBs' : '',
-            h2hData.matchHistory.length > 0 ? 'History(' + h2hData.matchHistory.length + ')' : '',
-          ].filter(Boolean).join(', ');
-
-          console.log('   ✓ [' + (i + 1) + '/' + upcoming.length + '] ' + shortName +
-            ' | ' + tournamentLabel +
-            ' | H2H: ' + h2hData.p1H2HWins + '-' + h2hData.p2H2HWins +
-            ' | Data: ' + statsFound);
-          successCount++;
-        }
-      } catch (err: any) {
-        console.log('   ✗ [' + (i + 1) + '/' + upcoming.length + '] ' + shortName + ' — ' + (err.message || err));
-        errorCount++;
-      }
+  // ── Step 2b: Revisit recent days for final results ──────────
+  console.log('\n🏁 Phase 2b: Updating results for the past ' + RESULTS_DAYS_BACK + ' days...');
+  for (let i = 1; i <= RESULTS_DAYS_BACK; i++) {
+    await updateResultsForDate(scraper, db, session, addDays(today, -i), ledger);
+    await sleep(2000);
+  }
 
-      if (i < upcoming.length - 1) {
-        await sleep(DELAY_MS);
-      }
+  // ── Step 3: Scrape H2H detail pages ─────────────────────────
+  const upcoming = supportedMatches.filter(m => m.status === 'upcoming' && m.h2hUrl);
+  const policy = { ttlHours: options.h2hTtlHours ?? H2H_TTL_HOURS, force: options.forceH2H };
+  const decisions = applyFreshness(upcoming, await db.getH2HCacheState(upcoming.map(m => m.h2hUrl)), policy);
+  const stale = decisions.filter(d => d.scrape).map(d => d.match);
+  const freshCount = upcoming.length - stale.length;
+  const playedSince = decisions.filter(d => d.reason === 'played since').length;
+
+  console.log('\n🔍 Phase 3: Scraping ' + stale.length + ' H2H detail pages (concurrency ' + options.concurrency + ')...');
+  console.log('   ' + (policy.force
+    ? 'Freshness cache ignored (--force-h2h)'
+    : freshCount + ' fresh within ' + policy.ttlHours + 'h skipped, ' + playedSince + ' refreshed after a new result'));
+  const { successCount, errors, sessionLost } = await scrapeH2HPages(scraper, db, session, stale, options, ledger);
+  ledger.phase('h2h', { seen: upcoming.length, filtered: stale.length, saved: successCount });
+
+  // Missing pages are expected now and then; anything else failing this often needs a look
+  const h2hFailed = errors.total - errors.counts['not-found'];
+  const h2hAttempted = successCount + errors.total;
+  if (h2hAttempted >= ALERT_H2H_MIN_PAGES && h2hFailed / h2hAttempted > ALERT_H2H_ERROR_RATE) {
+    await getNotifier().notify(h2hErrorRateAlert(today, h2hFailed, h2hAttempted, errors.format()));
+  }
+
+  // ── Summary ──────────────────────────────────────────────────
+  console.log('\n═══════════════════════════════════════════════════════');
+  console.log('  Scraping Complete!' + (options.dryRun ? ' (dry run — nothing written)' : ''));
+  console.log('  Today\'s matches:     ' + supportedMatches.length + ' (from supported tournaments)');
+  console.log('  Finished today:      ' + finishedCount);
+  console.log('  H2H pages scraped:   ' + successCount);
+  console.log('  H2H still fresh:     ' + freshCount);
+  console.log('  H2H errors:          ' + errors.total + (errors.total > 0 ? ' (' + errors.format() + ')' : ''));
+  for (const kind of errors.kinds()) {
+    console.log('    · ' + kind + ' — ' + ERROR_HINTS[kind]);
+  }
+  console.log('  Account:             ' + session.username);
+  if (sessionLost) {
+    console.log('  ⚠ NO WORKING ACCOUNT — re-export cookies from browser!');
+  }
+  console.log('═══════════════════════════════════════════════════════\n');
+}
+
+async function updateResultsForDate(scraper: TennisStatsScraper, db: TennisStorage, session: SessionManager, date: string, ledger: RunLedger) {
+  const matches = await scrapeHomepageOrSkip(scraper, session, date, ledger);
+  if (!matches) return;
+  const updated = await db.updateMatchResults(matches, date);
+  ledger.phase('results', { seen: matches.length, filtered: matches.filter(m => m.status === 'finished').length, saved: updated });
+  console.log('   ✓ ' + date + ' — ' + updated + ' results updated');
+}
+
+async function runResults(scraper: TennisStatsScraper, db: TennisStorage, session: SessionManager, options: CliOptions, ledger: RunLedger) {
+  const dates = options.date
+    ? [options.date]
+    : Array.from({ length: RESULTS_DAYS_BACK }, (_, i) => siteDate(scraper, session, i + 1));
+
+  console.log('\n🏁 Updating results for ' + dates.join(', ') + '...');
+  for (const date of dates) {
+    await updateResultsForDate(scraper, db, session, date, ledger);
+    await sleep(options.delayMs);
+  }
+}
+
+/**
+ * Live mode: poll the homepage and record in-play state for supported live
+ * matches until nothing has been live for a while or the time budget runs out.
+ */
+async function runLive(scraper: TennisStatsScraper, db: TennisStorage, session: SessionManager, options: CliOptions, ledger: RunLedger) {
+  const deadline = Date.now() + LIVE_MAX_MINUTES * 60 * 1000;
+  let idlePolls = 0;
+  let polls = 0;
+
+  while (Date.now() < deadline && idlePolls < LIVE_IDLE_POLLS) {
+    polls++;
+    const today = siteDate(scraper, session);
+    const matches = (await scrapeHomepageOrSkip(scraper, session, undefined, ledger)) || [];
+    const live = narrow(filterSupportedMatches(matches.filter(m => m.status === 'live'), today), options);
+
+    const recorded = await db.recordLiveStates(live, today);
+    ledger.phase('live', { seen: matches.length, filtered: live.length, saved: recorded });
+    idlePolls = live.length === 0 ? idlePolls + 1 : 0;
+    console.log('   ⏱ Poll ' + polls + ' — ' + live.length + ' live, ' + recorded + ' states recorded');
+
+    await sleep(LIVE_POLL_MS);
+  }
+
+  console.log('\n  Live polling stopped after ' + polls + ' polls\n');
+}
+
+/** Scrape a single H2H page by URL or key — for debugging one bad page */
+async function runH2H(scraper: TennisStatsScraper, db: TennisStorage, session: SessionManager, args: string[], options: CliOptions, ledger: RunLedger) {
+  const target = args[0];
+  if (!target) throw new Error('h2h needs a URL or key, e.g. `h2h carlos-alcaraz-vs-jannik-sinner`');
+
+  const url = target.startsWith('http') ? target : 'https://tennisstats.com/h2h/' + target.replace(/^\/?(h2h\/)?/, '');
+  console.log('\n🔍 Scraping ' + url + (options.surface ? ' (' + options.surface + ')' : '') + '...');
+
+  let h2h: H2HData;
+  try {
+    h2h = await withRetry(() => scraper.scrapeH2HWithCookies(url, session.cookies, options.surface));
+    await db.upsertH2H(h2h);
+    ledger.recordH2H(h2h);
+  } catch (raw) {
+    const err = classifyError(raw, url);
+    ledger.h2hErrors.add(err);
+    console.error('   ⚠ ' + err.kind + ': ' + err.message + ' — ' + ERROR_HINTS[err.kind]);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log('   ✓ ' + h2h.player1 + ' vs ' + h2h.player2 + ' | H2H: ' + h2h.p1H2HWins + '-' + h2h.p2H2HWins +
+    ' | periods: ' + (Object.keys(h2h.periods).join(', ') || 'none'));
+}
+
+/**
+ * Backfill mode: scrape every day in [from, to], resuming from stored progress.
+ */
+async function runBackfillMode(scraper: TennisStatsScraper, db: TennisStorage, session: SessionManager, args: string[], options: CliOptions, ledger: RunLedger) {
+  const start = options.from || args[0];
+  if (!start) throw new Error('backfill needs --from YYYY-MM-DD (and usually --to)');
+  const { from, to } = requireDateRange(start, options.to || args[1] || start);
+
+  const summary = await runBackfill(scraper, db, session, {
+    from,
+    to,
+    rescrapePartial: options.rescrapePartial,
+    delayMs: options.delayMs,
+    filterMatches: matches => narrow(matches, options),
+  });
+  ledger.phase('backfill', {
+    seen: summary.daysCompleted + summary.daysSkipped + summary.daysIncomplete,
+    filtered: summary.daysCompleted + summary.daysIncomplete,
+    saved: summary.daysCompleted,
+  });
+
+  console.log('\n═══════════════════════════════════════════════════════');
+  console.log('  Backfill Complete!' + (options.dryRun ? ' (dry run — nothing written)' : ''));
+  console.log('  Days completed:      ' + summary.daysCompleted);
+  console.log('  Days skipped:        ' + summary.daysSkipped);
+  console.log('  Days incomplete:     ' + summary.daysIncomplete + ' (re-run to resume)');
+  console.log('  Account:             ' + session.username);
+  if (summary.sessionLost) {
+    console.log('  ⚠ NO WORKING ACCOUNT — re-export cookies from browser!');
+  }
+  console.log('═══════════════════════════════════════════════════════\n');
+}
+
+/** `tournaments check <name>` explains a match decision; `tournaments check` alone validates the registry */
+async function runTournamentsCheck(db: TennisStorage, args: string[], options: CliOptions) {
+  const [sub, ...rest] = args;
+  if (sub !== 'check') throw new Error('Usage: tournaments check [name]');
+
+  await loadTournaments(db);
+  const name = rest.join(' ').trim();
+  if (!name) return;
+
+  const genders: Array<'Men' | 'Women'> = options.gender ? [options.gender] : ['Men', 'Women'];
+  for (const gender of genders) {
+    const decision = resolveTournament(name, gender, options.date);
+    const verdict = decision.tournament
+      ? '✓ ' + decision.tournament.name + ' (' + decision.tournament.tier + ')'
+      : '✗ not supported';
+    console.log('   ' + gender + ': ' + verdict + ' | confidence ' + decision.confidence + ' | ' + decision.reason);
+  }
+}
+
+// ─── Entry Point ─────────────────────────────────────────────────────────────
+
+async function main() {
+  let cli: CliCommand;
+  try {
+    cli = parseCli(process.argv.slice(2));
+  } catch (err: any) {
+    console.error('❌ ' + err.message + '\n');
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const { command, args, options } = cli;
+  if (command === 'help') {
+    console.log(USAGE);
+    return;
+  }
+
+  // Bad STORAGE_* / ALERT_* settings or missing Supabase credentials stop the run here
+  let db: TennisStorage;
+  let notifier: Notifier;
+  try {
+    db = openStorage(options);
+    notifier = notifierFromEnv(options.dryRun);
+  } catch (err: any) {
+    console.error('❌ ' + (err?.message || String(err)));
+    process.exit(1);
+  }
+  notifier.useStorage(db);
+  setNotifier(notifier);
+
+  if (command === 'tournaments') {
+    try {
+      await runTournamentsCheck(db, args, options);
+    } catch (err: any) {
+      console.error('❌ ' + (err?.message || String(err)));
+      process.exitCode = 1;
+    } finally {
+      await db.close?.();
     }
+    return;
+  }
 
-    // ── Summary ──────────────────────────────────────────────────
-    console.log('\n═══════════════════════════════════════════════════════');
-    console.log('  Scraping Complete!');
-    console.log('  Today\'s matches:     ' + supportedMatches.length + ' (from supported tournaments)');
-    console.log('  H2H pages scraped:   ' + successCount);
-    console.log('  H2H errors:          ' + errorCount);
-    if (cookieExpired) {
-      console.log('  ⚠ COOKIES EXPIRED — re-export from browser!');
+  banner('TennisStats Scraper v2 — ' + command + (options.dryRun ? ' (dry run)' : ''));
+  const scraper = new TennisStatsScraper({
+    h2hSettleMs: options.settleMs,
+    timeZone: options.timeZone || process.env.TENNISSTATS_TIMEZONE || undefined,
+  });
+  const ledger = new RunLedger(command);
+  let session: SessionManager | null = null;
+  let runStarted = false;
+  console.log('🔔 Alerts: ' + (notifier.targetNames.join(', ') || 'log only') + '\n');
+
+  try {
+    // Recorded before the session check, so "no working account" shows up in scrape_runs too
+    await db.startRun(ledger.toRecord('running'));
+    runStarted = true;
+    console.log('   Run id: ' + ledger.id);
+
+    await scraper.init();
+    session = await openSession(scraper, db, options);
+    ledger.account = session.username;
+
+    console.log('\n🏆 Loading tournament registry...');
+    await loadTournaments(db);
+    await loadPlayers(db);
+
+    switch (command) {
+      case 'daily': await runDaily(scraper, db, session, options, ledger); break;
+      case 'live': await runLive(scraper, db, session, options, ledger); break;
+      case 'h2h': await runH2H(scraper, db, session, args, options, ledger); break;
+      case 'backfill': await runBackfillMode(scraper, db, session, args, options, ledger); break;
+      case 'results': await runResults(scraper, db, session, options, ledger); break;
     }
-    console.log('═══════════════════════════════════════════════════════\n');
 
-  } catch (err) {
+    ledger.account = session.username;
+    await db.finishRun(ledger.toRecord('completed'));
+  } catch (err: any) {
     console.error('Fatal error:', err);
-    process.exit(1);
+    if (err instanceof ScrapeError && err.kind === 'blocked') {
+      await notifier.notify(blockedAlert(err.url || '', command));
+    }
+    if (runStarted) {
+      if (session) ledger.account = session.username;
+      await db.finishRun(ledger.toRecord('failed', err?.message || String(err)));
+    }
+    process.exitCode = 1;
   } finally {
     await scraper.close();
+    await db.close?.();
   }
 }
 
-run().catch(console.error);
+main().catch(err => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,125 @@
+/**
+ * Scheduled Start Times
+ *
+ * The homepage prints start times as wall-clock text ("3:30 pm", "NB 15:00",
+ * "After previous match") in the site's timezone — whatever the session's
+ * timezone cookie says, Europe/London when there is none. This turns them into
+ * UTC instants for the page date. Each court's order of play is listed top to
+ * bottom, so an "after previous" match starts no earlier than the one above it.
+ */
+
+import { DailyMatch } from './types';
+
+export const DEFAULT_SITE_TIMEZONE = 'Europe/London';
+
+const TIMEZONE_COOKIES = ['tz', 'timezone', 'time_zone', 'user_timezone'];
+
+export function isValidTimeZone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The timezone named by a cookie in an exported cookie jar, if there is one */
+export function siteTimeZoneFromCookies(cookiesJson?: string): string | null {
+  if (!cookiesJson) return null;
+  try {
+    const cookies: { name?: string; value?: string }[] = JSON.parse(cookiesJson);
+    for (const cookie of cookies) {
+      if (!cookie.name || !TIMEZONE_COOKIES.includes(cookie.name.toLowerCase())) continue;
+      const tz = decodeURIComponent(cookie.value || '');
+      if (tz && isValidTimeZone(tz)) return tz;
+    }
+  } catch {
+    // Malformed jars are reported when the cookies are set on a page
+  }
+  return null;
+}
+
+// ─── Timezone Arithmetic ─────────────────────────────────────────────────────
+
+/** Wall-clock fields of `instant` in `tz` */
+function zonedParts(instant: Date, tz: string): Record<string, number> {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: tz,
+    hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit',
+  }).formatToParts(instant);
+
+  const fields: Record<string, number> = {};
+  for (const p of parts) {
+    if (p.type !== 'literal') fields[p.type] = Number(p.value);
+  }
+  return fields;
+}
+
+/** How far `tz` is ahead of UTC at `instant`, in ms (BST → 3600000) */
+export function tzOffsetMs(instant: Date, tz: string): number {
+  const f = zonedParts(instant, tz);
+  const asUtc = Date.UTC(f.year, f.month - 1, f.day, f.hour, f.minute, f.second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/** The UTC instant of `hour:minute` on `date` (YYYY-MM-DD) as read on a clock in `tz` */
+export function zonedToUtc(date: string, hour: number, minute: number, tz: string): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  const wall = Date.UTC(y, m - 1, d, hour, minute);
+  // The offset at the guess can differ from the offset at the answer across a DST change
+  const first = wall - tzOffsetMs(new Date(wall), tz);
+  return new Date(wall - tzOffsetMs(new Date(first), tz));
+}
+
+/** Today's date (YYYY-MM-DD) on a clock in `tz` */
+export function todayInZone(tz: string, now: Date = new Date()): string {
+  const f = zonedParts(now, tz);
+  return f.year + '-' + String(f.month).padStart(2, '0') + '-' + String(f.day).padStart(2, '0');
+}
+
+// ─── Order of Play ───────────────────────────────────────────────────────────
+
+/** "3:30 pm" / "NB 15:30" → 24h hour and minute */
+export function parseClockTime(text: string): { hour: number; minute: number } | null {
+  const m = (text || '').match(/(\d{1,2}):(\d{2})\s*([ap]m)?/i);
+  if (!m) return null;
+
+  let hour = parseInt(m[1], 10);
+  const minute = parseInt(m[2], 10);
+  const meridiem = m[3]?.toLowerCase();
+  if (meridiem === 'pm' && hour < 12) hour += 12;
+  if (meridiem === 'am' && hour === 12) hour = 0;
+  if (hour > 23 || minute > 59) return null;
+  return { hour, minute };
+}
+
+/**
+ * Fill in scheduledAt and courtOrder for one page of matches, in page order.
+ * Matches are grouped by tournament and court (the whole tournament section when
+ * the court isn't shown). Fixed and "not before" times convert directly; an
+ * "after previous" match gets the previous match's start as its earliest start,
+ * or null when that isn't known.
+ */
+export function resolveScheduledTimes<T extends DailyMatch>(matches: T[], date: string, tz: string): T[] {
+  const orderByCourt = new Map<string, number>();
+  const previousStart = new Map<string, string | null>();
+
+  return matches.map(match => {
+    const court = match.tournament + '|' + (match.court || '');
+    const courtOrder = (orderByCourt.get(court) || 0) + 1;
+    orderByCourt.set(court, courtOrder);
+
+    let scheduledAt: string | null = null;
+    if (match.scheduleKind === 'after_previous') {
+      scheduledAt = previousStart.get(court) ?? null;
+    } else {
+      const clock = parseClockTime(match.scheduledTime);
+      if (clock) scheduledAt = zonedToUtc(date, clock.hour, clock.minute, tz).toISOString();
+    }
+    previousStart.set(court, scheduledAt);
+
+    return { ...match, scheduledAt, courtOrder };
+  });
+}
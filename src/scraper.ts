@@ -8,112 +8,116 @@
  *   div.widget-box-shadow > div.widget-header > h2 (section heading)
  *   div.data-table > div.data-table-row (data rows with 3-4 cell children)
  *   Tabbed sections use div.ui-toggle-target.active for visible content.
+ *
+ * This class only drives the browser; all HTML parsing lives in parsers.ts.
  */
 
 import puppeteer from 'puppeteer-extra';
 import StealthPlugin from 'puppeteer-extra-plugin-stealth';
 import { Browser, Page } from 'puppeteer';
+import { DailyMatch, H2HData, H2HPeriodStats, SessionCheck } from './types';
+import {
+  buildSectionMap,
+  hasPremiumStats,
+  isCloudflareChallenge,
+  listPeriodTabs,
+  parseDailyMatches,
+  parseH2HPage,
+  parseStatSections,
+  toDocument,
+  TOGGLE_TRIGGER_SELECTOR,
+} from './parsers';
+import { ScrapeError } from './errors';
+import { DEFAULT_SITE_TIMEZONE, resolveScheduledTimes, siteTimeZoneFromCookies, todayInZone } from './schedule';
+
+export type { DailyMatch, H2HData } from './types';
 
 puppeteer.use(StealthPlugin());
 
-// ─── Types ───────────────────────────────────────────────────────────────────
-
-export interface DailyMatch {
-  tournament: string;
-  tournamentTier?: string;
-  tournamentOfficialName?: string;
-  country: string;
-  gender: 'Men' | 'Women';
-  category: 'Singles' | 'Doubles';
-  round: string;
-  surface: 'Hard' | 'Clay' | 'Grass';
-  player1: {
-    name: string;
-    ranking: number | null;
-    formScore: number;
-    odds: number | null;
-  };
-  player2: {
-    name: string;
-    ranking: number | null;
-    formScore: number;
-    odds: number | null;
-  };
-  scheduledTime: string;
-  status: 'upcoming' | 'live' | 'finished';
-  h2hUrl: string;
-  score?: string;
-}
+// ─── Page Pool ───────────────────────────────────────────────────────────────
+
+/**
+ * Hands out at most `size` pages at a time, creating them lazily and reusing
+ * them between requests. Broken pages are closed and replaced on release; if the
+ * replacement can't be created the slot is left free for the next acquire.
+ */
+export class PagePool {
+  private idle: Page[] = [];
+  private all = new Set<Page>();
+  private waiters: Array<{ resolve: (page: Page) => void; reject: (err: unknown) => void }> = [];
+  private stale = new Set<Page>();
+
+  constructor(private create: () => Promise<Page>, readonly size: number) {}
+
+  async acquire(): Promise<Page> {
+    const page = this.idle.pop();
+    if (page) return page;
+
+    if (this.all.size < this.size) {
+      const created = await this.create();
+      this.all.add(created);
+      return created;
+    }
+
+    return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+  }
 
-export interface H2HData {
-  h2hKey: string;
-  player1: string;
-  player2: string;
-  // Full Stats
-  p1Rank: number;
-  p2Rank: number;
-  p1H2HWins: number;
-  p2H2HWins: number;
-  p1H2HSets: number;
-  p2H2HSets: number;
-  p1CalendarYearWinPct: number;
-  p1CalendarYearRecord: string;
-  p2CalendarYearWinPct: number;
-  p2CalendarYearRecord: string;
-  p1Last12mWinPct: number;
-  p1Last12mRecord: string;
-  p2Last12mWinPct: number;
-  p2Last12mRecord: string;
-  // Match History
-  matchHistory: Array<{
-    date: string;
-    tournament: string;
-    surface: string;
-    winner: string;
-    score: string;
-  }>;
-  // Win Percentage (Last 12 Months, All Surfaces)
-  p1MatchWinsPct: number;
-  p2MatchWinsPct: number;
-  p1StraightSetsPct: number;
-  p2StraightSetsPct: number;
-  p1WinsFromBehindPct: number;
-  p2WinsFromBehindPct: number;
-  p1Set1WinPct: number;
-  p2Set1WinPct: number;
-  p1Set2WinPct: number;
-  p2Set2WinPct: number;
-  p1Set3WinPct: number;
-  p2Set3WinPct: number;
-  // Serve & Return Stats (Last 12 Months, All Surfaces)
-  p1AcesPerMatch: number;
-  p2AcesPerMatch: number;
-  acesMatchTotal: number;
-  p1DoubleFaultsPerMatch: number;
-  p2DoubleFaultsPerMatch: number;
-  doubleFaultsMatchTotal: number;
-  p1BreaksPerMatch: number;
-  p2BreaksPerMatch: number;
-  breaksMatchTotal: number;
-  p1TiebreaksPerMatch: number;
-  p2TiebreaksPerMatch: number;
-  tiebreaksAverage: number;
-  // Match Total Games (Last 12 Months, All Surfaces)
-  p1AvgGamesPerSet: number;
-  p2AvgGamesPerSet: number;
-  avgGamesPerSet: number;
-  gamesOver20_5Pct: number;
-  gamesOver21_5Pct: number;
-  gamesOver22_5Pct: number;
-  gamesOver23_5Pct: number;
-  gamesOver24_5Pct: number;
+  /** Never throws, so it is safe in a `finally` */
+  async release(page: Page, broken = false): Promise<void> {
+    let next = page;
+    if (broken || this.stale.has(page)) {
+      this.stale.delete(page);
+      this.all.delete(page);
+      await page.close().catch(() => {});
+      try {
+        next = await this.create();
+        this.all.add(next);
+      } catch (err) {
+        console.warn('[TennisStats] Could not replace pooled page:', err instanceof Error ? err.message : err);
+        // The slot is free again: a waiter gets the failure and its next acquire() retries the create
+        this.waiters.shift()?.reject(err);
+        return;
+      }
+    }
+
+    const waiter = this.waiters.shift();
+    if (waiter) waiter.resolve(next);
+    else this.idle.push(next);
+  }
+
+  /** Replace every page (e.g. after switching accounts): idle ones now, busy ones on release */
+  async recycle(): Promise<void> {
+    const idle = this.idle;
+    this.idle = [];
+    for (const page of idle) this.all.delete(page);
+    for (const page of this.all) this.stale.add(page);
+    await Promise.all(idle.map(p => p.close().catch(() => {})));
+  }
+
+  async close(): Promise<void> {
+    for (const waiter of this.waiters.splice(0)) waiter.reject(new Error('Page pool closed'));
+    this.stale.clear();
+    await Promise.all(Array.from(this.all).map(p => p.close().catch(() => {})));
+    this.all.clear();
+    this.idle = [];
+  }
 }
 
 // ─── Scraper Class ───────────────────────────────────────────────────────────
 
+export interface ScraperOptions {
+  h2hSettleMs: number; // extra wait after the H2H data rows appear, for late-rendering widgets
+  timeZone?: string;   // timezone the site renders start times in; else the cookie's, else Europe/London
+}
+
 export class TennisStatsScraper {
   private browser: Browser | null = null;
   private baseUrl = 'https://tennisstats.com';
+  private options: ScraperOptions;
+
+  constructor(options: Partial<ScraperOptions> = {}) {
+    this.options = { h2hSettleMs: 2000, ...options };
+  }
 
   async init(): Promise<void> {
     this.browser = await puppeteer.launch({
@@ -157,9 +161,17 @@ export class TennisStatsScraper {
 
   // ─── Daily Matches (Homepage) ───────────────────────────────────────────
 
+  /** Timezone the site renders dates and start times in: --timezone, else the cookie's, else Europe/London */
+  siteTimeZone(cookiesJson?: string): string {
+    return this.options.timeZone || siteTimeZoneFromCookies(cookiesJson) || DEFAULT_SITE_TIMEZONE;
+  }
+
   async scrapeDailyMatches(date?: string, cookiesJson?: string): Promise<DailyMatch[]> {
     const page = cookiesJson ? await this.newPageWithCookies(cookiesJson) : await this.newPage();
     const url = date ? `${this.baseUrl}/${date}` : this.baseUrl;
+    const timeZone = this.siteTimeZone(cookiesJson);
+    // Pages that format times client-side use the browser's zone, so keep it the same
+    await page.emulateTimezone(timeZone);
 
     console.log(`[TennisStats] Scraping daily matches from ${url}`);
     await page.goto(url, { waitUntil: 'networkidle2', timeout: 60000 });
@@ -171,381 +183,226 @@ export class TennisStatsScraper {
     await new Promise(r => setTimeout(r, 3000));
 
     const bodyText = await page.evaluate(() => document.body.textContent || '');
-    if (bodyText.includes('Performing security verification') || bodyText.includes('Just a moment')) {
+    if (isCloudflareChallenge(bodyText)) {
       console.error('[TennisStats] Cloudflare blocked request');
       await page.close();
-      return [];
+      // Thrown, not [] — an empty list would read as a quiet day
+      throw new ScrapeError('blocked', 'Cloudflare challenge', url);
     }
 
-    const matches = await page.evaluate(() => {
-      const results: any[] = [];
-      const matchLinks = document.querySelectorAll('a[href*="/h2h/"]');
-
-      matchLinks.forEach((link: any) => {
-        const href = link.getAttribute('href') || '';
-        const rawText = (link.textContent || '').replace(/\s+/g, ' ').trim();
-        if (!rawText || !href) return;
-
-        const rankingPattern = /\(([^)]+)\)/g;
-        const rankings: any[] = [];
-        let m;
-        while ((m = rankingPattern.exec(rawText)) !== null) {
-          rankings.push({ match: m[0], value: m[1], index: m.index });
-        }
-        if (rankings.length < 2) return;
-
-        const beforeRank1 = rawText.substring(0, rankings[0].index).trim();
-        const betweenRanks = rawText.substring(
-          rankings[0].index + rankings[0].match.length,
-          rankings[1].index
-        ).trim();
-        const afterRank2 = rawText.substring(
-          rankings[1].index + rankings[1].match.length
-        ).trim();
-
-        const p1Match = beforeRank1.match(/^(\d+)\s+(.+)$/);
-        if (!p1Match) return;
-        const form1 = parseInt(p1Match[1]);
-        const name1 = p1Match[2].trim();
-
-        const isFinished = betweenRanks.includes('Fin.');
-        const isLive = betweenRanks.includes('Serving') || betweenRanks.includes('•');
-        let status: string = 'upcoming';
-        if (isFinished) status = 'finished';
-        else if (isLive) status = 'live';
-
-        const timeMatch = betweenRanks.match(/\d{1,2}:\d{2}\s*[ap]m/i);
-        const scheduledTime = timeMatch ? timeMatch[0] : '';
-
-        const name2Match = betweenRanks.match(/(\d+)\s+([A-Z][a-zA-Z][\w\s.'-]+)$/);
-        const form2 = name2Match ? parseInt(name2Match[1]) : 0;
-        const name2 = name2Match ? name2Match[2].trim() : '';
-
-        const odds1Match = betweenRanks.match(/^[\s]*(\d+\.\d{2})/);
-        const odds1 = odds1Match ? parseFloat(odds1Match[1]) : null;
-        const odds2Match = afterRank2.match(/(\d+\.\d{2})/);
-        const odds2 = odds2Match ? parseFloat(odds2Match[1]) : null;
-
-        let rank1: number | null = null;
-        const rank1Match = rankings[0].value.match(/^(\d+)/);
-        if (rank1Match) rank1 = parseInt(rank1Match[1]);
-        let rank2: number | null = null;
-        const rank2Match = rankings[1].value.match(/^(\d+)/);
-        if (rank2Match) rank2 = parseInt(rank2Match[1]);
-
-        if (!name1 || !name2) return;
-
-        results.push({
-          player1: { name: name1, ranking: rank1, formScore: form1, odds: odds1 },
-          player2: { name: name2, ranking: rank2, formScore: form2, odds: odds2 },
-          scheduledTime, status,
-          h2hUrl: href.startsWith('http') ? href : 'https://tennisstats.com' + href,
-        });
-      });
-
-      // Extract tournament context from section headings
-      const sections = document.querySelectorAll('h2, a[href*="/h2h/"]');
-      let currentTournament = '', currentCountry = '';
-      let currentGender = 'Men', currentCategory = 'Singles';
-      let currentSurface = 'Hard', currentRound = 'Main';
-      const tournamentMap = new Map<string, any>();
-
-      sections.forEach((el: any) => {
-        if (el.tagName === 'H2') {
-          const text = (el.textContent || '').trim();
-          const parts = text.match(/^(.+?)\s*-\s*(.+)$/);
-          if (parts) {
-            currentTournament = parts[1].trim();
-            currentCountry = parts[2].trim();
-          }
-          const parent = el.closest('div') || el.parentElement;
-          const parentText = parent ? parent.textContent || '' : '';
-          currentGender = parentText.includes('Women') ? 'Women' : 'Men';
-          currentCategory = parentText.includes('Doubles') ? 'Doubles' : 'Singles';
-          if (parentText.includes('Clay')) currentSurface = 'Clay';
-          else if (parentText.includes('Grass')) currentSurface = 'Grass';
-          else currentSurface = 'Hard';
-          currentRound = parentText.includes('Qualification') ? 'Qualification' : 'Main';
-        } else {
-          const href = el.getAttribute('href') || '';
-          if (href.includes('/h2h/')) {
-            const fullUrl = href.startsWith('http') ? href : 'https://tennisstats.com' + href;
-            tournamentMap.set(fullUrl, {
-              tournament: currentTournament, country: currentCountry,
-              gender: currentGender, category: currentCategory,
-              surface: currentSurface, round: currentRound,
-            });
-          }
-        }
-      });
-
-      return results.map((r: any) => ({ ...r, ...(tournamentMap.get(r.h2hUrl) || {}) }));
-    });
+    const matches = resolveScheduledTimes(parseDailyMatches(await page.content()), date || todayInZone(timeZone), timeZone);
 
     await page.close();
-    console.log(`[TennisStats] Found ${matches.length} matches`);
-    return matches as DailyMatch[];
+    console.log(`[TennisStats] Found ${matches.length} matches (times in ${timeZone})`);
+    return matches;
   }
 
   // ─── H2H Detail Page ───────────────────────────────────────────────────
 
-  async scrapeH2HWithCookies(h2hUrl: string, cookiesJson: string): Promise<H2HData | null> {
+  async scrapeH2HWithCookies(
+    h2hUrl: string,
+    cookiesJson: string,
+    surface?: DailyMatch['surface']
+  ): Promise<H2HData> {
     const page = await this.newPageWithCookies(cookiesJson);
+    try {
+      return await this.scrapeH2HOnPage(page, h2hUrl, surface);
+    } finally {
+      await page.close();
+    }
+  }
+
+  /**
+   * Scrape an H2H page on a page the caller owns (e.g. from a PagePool).
+   * The page is left open for reuse. Failures throw a ScrapeError (see errors.ts).
+   */
+  async scrapeH2HOnPage(
+    page: Page,
+    h2hUrl: string,
+    surface?: DailyMatch['surface']
+  ): Promise<H2HData> {
+    const response = await page.goto(h2hUrl, { waitUntil: 'networkidle2', timeout: 30000 });
+    if (response && response.status() === 404) {
+      throw new ScrapeError('not-found', 'HTTP 404', h2hUrl);
+    }
+    await page.waitForSelector('.data-table-row', { timeout: 10000 }).catch(() => {});
+    if (this.options.h2hSettleMs > 0) {
+      await new Promise(r => setTimeout(r, this.options.h2hSettleMs));
+    }
+
+    // Verify page loaded correctly (not blocked by Cloudflare)
+    const pageText = await page.evaluate(() => document.body.textContent || '');
+    if (isCloudflareChallenge(pageText)) {
+      throw new ScrapeError('blocked', 'Cloudflare challenge', h2hUrl);
+    }
 
+    if (!pageText.toLowerCase().includes('head to head') &&
+        !pageText.toLowerCase().includes('h2h') &&
+        !pageText.toLowerCase().includes(' vs ')) {
+      throw new ScrapeError('not-found', 'page has no H2H content', h2hUrl);
+    }
+
+    // parseH2HPage reads whichever tab panels the HTML holds (matched to their tab by id)
+    // into `periods`; tabs whose panel is missing or empty are clicked in addMissingPeriods
+    const doc = toDocument(await page.content());
+    const data = parseH2HPage(doc, h2hUrl);
+    if (!data) {
+      throw new ScrapeError('layout-changed', 'no "X vs Y" H1 on an H2H page', h2hUrl);
+    }
+    // Doubles pages carry only the team record and history — take whatever is there
+    if (data.category === 'Doubles') return data;
+
+    if (!hasPremiumStats(doc)) {
+      throw new ScrapeError('auth', 'premium stat sections missing', h2hUrl);
+    }
+    await this.addMissingPeriods(page, doc, data);
+    if (surface) await this.addSurfaceStats(page, data, surface);
+    return data;
+  }
+
+  /**
+   * A bounded pool of cookie-authenticated pages on the shared browser.
+   * Cookies are read when each page is created, so after an account switch
+   * `recycle()` brings the whole pool onto the new account.
+   */
+  createPagePool(size: number, cookies: () => string): PagePool {
+    return new PagePool(() => this.newPageWithCookies(cookies()), size);
+  }
+
+  // ─── Session Validation ────────────────────────────────────────────────
+
+  /**
+   * Load a known H2H page with these cookies and check that the premium-only
+   * stat sections render. A logged-out or expired session still gets the page,
+   * just without the stats, so "the page loaded" is not enough.
+   */
+  async validateSession(cookiesJson: string, probeUrl: string): Promise<SessionCheck> {
+    const page = await this.newPageWithCookies(cookiesJson);
     try {
-      await page.goto(h2hUrl, { waitUntil: 'networkidle2', timeout: 30000 });
+      await page.goto(probeUrl, { waitUntil: 'networkidle2', timeout: 30000 });
       await page.waitForSelector('.data-table-row', { timeout: 10000 }).catch(() => {});
-      await new Promise(r => setTimeout(r, 2000));
 
-      // Verify page loaded correctly (not blocked by Cloudflare)
       const pageText = await page.evaluate(() => document.body.textContent || '');
-      if (pageText.includes('Performing security verification') || pageText.includes('Just a moment')) {
-        await page.close();
-        return null;
+      if (isCloudflareChallenge(pageText)) return 'blocked';
+
+      const doc = toDocument(await page.content());
+      return parseH2HPage(doc, probeUrl) && hasPremiumStats(doc) ? 'ok' : 'no-premium';
+    } catch (err: any) {
+      console.warn(`[TennisStats] Session check failed: ${err.message || err}`);
+      return 'blocked';
+    } finally {
+      await page.close();
+    }
+  }
+
+  /**
+   * Fill `periods` for tabs whose panel the HTML doesn't hold (or holds empty, e.g.
+   * loaded on click): click the tab in every widget, wait for the rows to change and
+   * read that period. The tab that was active is clicked again afterwards so the
+   * default view is back for addSurfaceStats.
+   */
+  private async addMissingPeriods(page: Page, doc: Document, data: H2HData): Promise<void> {
+    const tabs = listPeriodTabs(doc);
+    const missing = tabs.filter(t => !t.loaded && !t.active);
+    if (missing.length === 0) return;
+
+    for (const tab of missing) {
+      const after = await this.clickTab(page, tab.label);
+      if (!after) {
+        console.warn(`[H2H] ${tab.label} tab didn't load: ${data.h2hKey}`);
+        continue;
+      }
+      // The panel the tab names, else the swapped-in default view
+      const panel = buildSectionMap(after, tab.period);
+      const stats = parseStatSections(panel.size > 0 ? panel : buildSectionMap(after));
+      if (!hasStats(stats)) {
+        console.warn(`[H2H] ${tab.label} tab has no stats: ${data.h2hKey}`);
+        continue;
       }
+      data.periods[tab.period] = stats;
+    }
+
+    const active = tabs.find(t => t.active);
+    if (active) await this.clickTab(page, active.label);
+  }
+
+  /** Click every period tab with this text; the page once its rows changed, or null */
+  private async clickTab(page: Page, label: string): Promise<Document | null> {
+    const before = await rowsText(page);
+    const clicked = await page.evaluate((selector: string, text: string) => {
+      let count = 0;
+      document.querySelectorAll(selector).forEach(el => {
+        if ((el.textContent || '').replace(/\s+/g, ' ').trim() !== text) return;
+        (el as HTMLElement).click();
+        count++;
+      });
+      return count;
+    }, TOGGLE_TRIGGER_SELECTOR, label);
+    if (clicked === 0 || !(await this.waitForRowsChange(page, before))) return null;
+    return toDocument(await page.content());
+  }
+
+  /** Wait for the stat rows to re-render, then the same settle as the first read */
+  private async waitForRowsChange(page: Page, before: string): Promise<boolean> {
+    const changed = await page.waitForFunction(
+      (previous: string) => Array.from(document.querySelectorAll('.data-table-row')).map(r => r.textContent).join('|') !== previous,
+      { timeout: 10000 },
+      before
+    ).then(() => true, () => false);
+    if (this.options.h2hSettleMs > 0) {
+      await new Promise(r => setTimeout(r, this.options.h2hSettleMs));
+    }
+    return changed;
+  }
 
-      if (!pageText.toLowerCase().includes('head to head') &&
-          !pageText.toLowerCase().includes('h2h') &&
-          !pageText.toLowerCase().includes(' vs ')) {
-        console.warn(`[H2H] Page has no H2H content: ${h2hUrl}`);
-        await page.close();
-        return null;
+  /**
+   * Make sure `periods` holds the stat sections for the match's own surface.
+   * Pages with surface tabs already have them; otherwise pick the surface in the
+   * page's filter dropdown and re-read the now surface-filtered default view.
+   */
+  private async addSurfaceStats(page: Page, data: H2HData, surface: DailyMatch['surface']): Promise<void> {
+    const key = surface.toLowerCase();
+    if (data.periods[key]) return;
+
+    const before = await rowsText(page);
+    const selected = await page.evaluate((name: string) => {
+      for (const select of Array.from(document.querySelectorAll('select'))) {
+        const option = Array.from(select.options).find(o => (o.textContent || '').trim().toLowerCase() === name);
+        if (!option) continue;
+        select.value = option.value;
+        select.dispatchEvent(new Event('change', { bubbles: true }));
+        return true;
       }
+      return false;
+    }, key);
 
-      // TODO: Switch stat sections to "Last 12 Months" view.
-      // Currently reads default "2026 Calendar Year" data. Multiple approaches tried:
-      //   1. element.click() inside page.evaluate() — adds 'active' to tab button but content panel doesn't switch
-      //   2. Puppeteer page.click() with real mouse events — same result, tab button active but content unchanged
-      // The site likely uses a custom JS toggle mechanism that neither approach triggers.
-      // Possible fixes to try later:
-      //   - page.evaluate(() => { /* dispatch custom event */ })
-      //   - Intercept and modify the page URL to request L12M data directly
-      //   - Use the TennisStats API if one exists (check network tab)
-      //   - Try clicking with page.$eval and dispatchEvent('mousedown') + dispatchEvent('mouseup')
-
-      // Extract all data from the page
-      const data = await page.evaluate((url: string) => {
-        const parseNum = (s: string | null | undefined): number => {
-          if (!s || s === 'N/A' || s === '-') return 0;
-          return parseFloat(s.replace(/[^0-9.\-]/g, '')) || 0;
-        };
-
-        const parsePct = (s: string | null | undefined): number => {
-          if (!s || s === 'N/A' || s === '-') return 0;
-          const m = s.match(/([\d.]+)\s*%/);
-          return m ? parseFloat(m[1]) : 0;
-        };
-
-        // Cell value extraction handles two HTML patterns:
-        //   <span>3</span>(75.0%)  → span holds the numeric value
-        //   38<span class="fs08e">%</span> → text node holds value, span is just "%"
-        const getCellValue = (cell: Element): string => {
-          const spans = cell.querySelectorAll(':scope > span');
-          if (spans.length > 0) {
-            const first = (spans[0].textContent || '').trim();
-            if (/^[\d.\-]/.test(first) || first === 'N/A') return first;
-          }
-          return (cell.textContent || '').replace(/\s+/g, ' ').trim();
-        };
-
-        const getCellFullText = (cell: Element): string =>
-          (cell.textContent || '').replace(/\s+/g, ' ').trim();
-
-        // Build section map: h2 heading → array of parsed data rows
-        type SectionRow = { label: string; p1: string; p2: string; total: string; p1Full: string; p2Full: string };
-        const sectionMap = new Map<string, SectionRow[]>();
-
-        document.querySelectorAll('h2').forEach(h2 => {
-          const heading = (h2.textContent || '').trim();
-          if (!heading || heading.length > 200) return;
-
-          let widget: Element | null = h2;
-          while (widget && !(widget.classList?.contains('widget-box-shadow') || widget.classList?.contains('widget-sidebar-ranking'))) {
-            widget = widget.parentElement;
-          }
-          if (!widget) return;
-
-          const activeTarget = widget.querySelector('.ui-toggle-target.active');
-          const container = activeTarget || widget;
-          const rows: SectionRow[] = [];
-
-          container.querySelectorAll('.data-table').forEach(dt => {
-            dt.querySelectorAll('.data-table-row').forEach(row => {
-              const children = Array.from(row.children) as Element[];
-              if (children.length < 2) return;
-
-              const label = getCellFullText(children[0]);
-              const p1 = children.length > 1 ? getCellValue(children[1]) : '';
-              const p2 = children.length > 2 ? getCellValue(children[2]) : '';
-              const total = children.length > 3 ? getCellValue(children[3]) : '';
-              const p1Full = children.length > 1 ? getCellFullText(children[1]) : '';
-              const p2Full = children.length > 2 ? getCellFullText(children[2]) : '';
-
-              if (label) rows.push({ label, p1, p2, total, p1Full, p2Full });
-            });
-          });
-
-          if (rows.length > 0) sectionMap.set(heading, rows);
-        });
-
-        // Lookup helpers
-        const findValue = (headingKeyword: string, labelKeyword: string) => {
-          const hk = headingKeyword.toLowerCase();
-          const lk = labelKeyword.toLowerCase();
-          for (const [heading, rows] of sectionMap.entries()) {
-            if (!heading.toLowerCase().includes(hk)) continue;
-            for (const row of rows) {
-              if (row.label.toLowerCase().includes(lk)) return row;
-            }
-          }
-          return { p1: '', p2: '', total: '', p1Full: '', p2Full: '' };
-        };
-
-        const getFirstRow = (headingKeyword: string) => {
-          const hk = headingKeyword.toLowerCase();
-          for (const [heading, rows] of sectionMap.entries()) {
-            if (!heading.toLowerCase().includes(hk)) continue;
-            if (rows.length > 0) return rows[0];
-          }
-          return { p1: '', p2: '', total: '', p1Full: '', p2Full: '', label: '' };
-        };
-
-        // Extract player names from H1
-        const h1 = document.querySelector('h1')?.textContent || '';
-        const vsMatch = h1.match(/(.+?)\s+vs\.?\s+(.+?)(?:\s+Head|\s+H2H|\s+Stats|\s*$)/i);
-        if (!vsMatch) return null;
-
-        const player1 = vsMatch[1].trim();
-        const player2 = vsMatch[2].trim();
-        const urlSlug = url.match(/\/h2h\/(.+?)$/);
-        const h2hKey = urlSlug ? urlSlug[1] : `${player1}-vs-${player2}`;
-
-        // Full Stats section
-        const rankRow = findValue('Full Stats', 'Current Rank');
-        const winsRow = findValue('Full Stats', 'Wins');
-        const setsRow = findValue('Full Stats', 'Sets Won');
-        const cyRow = findValue('Full Stats', 'Win Percentage') || findValue('Full Stats', 'Calendar Year');
-        const l12mRow = findValue('Full Stats', 'Last 12') || findValue('Full Stats', '12 Month');
-
-        // Match History (h2h-history-row elements)
-        // Filter to valid H2H entries only (score format "X-Y" with a winner)
-        const matchHistory: Array<{ date: string; tournament: string; surface: string; winner: string; score: string }> = [];
-        document.querySelectorAll('.h2h-history-row').forEach(row => {
-          const children = Array.from(row.children) as Element[];
-          if (children.length < 5) return;
-
-          const dateHTML = children[0].innerHTML;
-          const dateParts = dateHTML.split(/<br\s*\/?>/i);
-          const dateStr = dateParts.map(p => p.replace(/<[^>]+>/g, '').trim()).filter(Boolean).join(' ');
-          if (!dateStr) return;
-
-          const tourneyHTML = children[1].innerHTML;
-          const tourneyParts = tourneyHTML.split(/<br\s*\/?>/i);
-          const tournament = tourneyParts[0] ? tourneyParts[0].replace(/<[^>]+>/g, '').trim() : '';
-          let surface = 'Hard';
-          if (tourneyParts.length > 1) {
-            const surfaceText = tourneyParts.slice(1).join(' ').replace(/<[^>]+>/g, '').trim().toLowerCase();
-            if (surfaceText.includes('clay')) surface = 'Clay';
-            else if (surfaceText.includes('grass')) surface = 'Grass';
-          }
-
-          const scoreEl = children[3];
-          const scoreSpans = scoreEl.querySelectorAll('span');
-          let score = '';
-          if (scoreSpans.length >= 2) {
-            score = (scoreSpans[0].textContent || '').trim() + '-' + (scoreSpans[1].textContent || '').trim();
-          } else {
-            const raw = (scoreEl.textContent || '').replace(/\s+/g, '').trim();
-            if (raw.length === 2 && /^\d{2}$/.test(raw)) {
-              score = raw[0] + '-' + raw[1];
-            } else {
-              score = raw;
-            }
-          }
-
-          let winner = '';
-          if (children[2]?.classList?.contains('winner')) {
-            winner = (children[2].textContent || '').replace(/\s+/g, ' ').trim();
-          } else if (children[4]?.classList?.contains('winner')) {
-            winner = (children[4].textContent || '').replace(/\s+/g, ' ').trim();
-          }
-
-          // Only include valid H2H entries (proper score + identified winner)
-          if (/^\d+-\d+$/.test(score) && winner) {
-            matchHistory.push({ date: dateStr, tournament, surface, winner, score });
-          }
-        });
-
-        // Stat sections — first row from each
-        const winPctRow = getFirstRow('Win Percentage');
-        const acesRow = getFirstRow('Aces');
-        const dfRow = getFirstRow('Double Faults');
-        const brRow = getFirstRow('Break');
-        const tbRow = getFirstRow('Tie Break');
-        const gamesRow = getFirstRow('Match Total Games');
-
-        return {
-          h2hKey,
-          player1,
-          player2,
-          p1Rank: parseNum(rankRow.p1),
-          p2Rank: parseNum(rankRow.p2),
-          p1H2HWins: parseNum(winsRow.p1),
-          p2H2HWins: parseNum(winsRow.p2),
-          p1H2HSets: parseNum(setsRow.p1),
-          p2H2HSets: parseNum(setsRow.p2),
-          p1CalendarYearWinPct: parsePct(cyRow.p1Full || cyRow.p1),
-          p1CalendarYearRecord: cyRow.p1Full || cyRow.p1 || '',
-          p2CalendarYearWinPct: parsePct(cyRow.p2Full || cyRow.p2),
-          p2CalendarYearRecord: cyRow.p2Full || cyRow.p2 || '',
-          p1Last12mWinPct: parsePct(l12mRow.p1Full || l12mRow.p1),
-          p1Last12mRecord: l12mRow.p1Full || l12mRow.p1 || '',
-          p2Last12mWinPct: parsePct(l12mRow.p2Full || l12mRow.p2),
-          p2Last12mRecord: l12mRow.p2Full || l12mRow.p2 || '',
-          matchHistory,
-          p1MatchWinsPct: parsePct(winPctRow.p1Full || winPctRow.p1),
-          p2MatchWinsPct: parsePct(winPctRow.p2Full || winPctRow.p2),
-          p1StraightSetsPct: 0,
-          p2StraightSetsPct: 0,
-          p1WinsFromBehindPct: 0,
-          p2WinsFromBehindPct: 0,
-          p1Set1WinPct: 0,
-          p2Set1WinPct: 0,
-          p1Set2WinPct: 0,
-          p2Set2WinPct: 0,
-          p1Set3WinPct: 0,
-          p2Set3WinPct: 0,
-          p1AcesPerMatch: parseNum(acesRow.p1),
-          p2AcesPerMatch: parseNum(acesRow.p2),
-          acesMatchTotal: parseNum(acesRow.total),
-          p1DoubleFaultsPerMatch: parseNum(dfRow.p1),
-          p2DoubleFaultsPerMatch: parseNum(dfRow.p2),
-          doubleFaultsMatchTotal: parseNum(dfRow.total),
-          p1BreaksPerMatch: parseNum(brRow.p1),
-          p2BreaksPerMatch: parseNum(brRow.p2),
-          breaksMatchTotal: parseNum(brRow.total),
-          p1TiebreaksPerMatch: parseNum(tbRow.p1),
-          p2TiebreaksPerMatch: parseNum(tbRow.p2),
-          tiebreaksAverage: parseNum(tbRow.total),
-          p1AvgGamesPerSet: parseNum(gamesRow.p1),
-          p2AvgGamesPerSet: parseNum(gamesRow.p2),
-          avgGamesPerSet: parseNum(gamesRow.total),
-          gamesOver20_5Pct: 0,
-          gamesOver21_5Pct: 0,
-          gamesOver22_5Pct: 0,
-          gamesOver23_5Pct: 0,
-          gamesOver24_5Pct: 0,
-        };
-      }, h2hUrl);
+    if (!selected) {
+      console.warn(`[H2H] No ${surface} filter on page: ${data.h2hKey}`);
+      return;
+    }
 
-      await page.close();
-      return data as H2HData;
+    await this.waitForRowsChange(page, before);
+    const stats = parseStatSections(buildSectionMap(await page.content()));
 
-    } catch (err: any) {
-      await page.close();
-      throw err;
+    // An unchanged view means the filter didn't apply — don't label all-surface numbers as surface ones
+    const unchanged = Object.keys(stats).every(k => JSON.stringify(stats[k]) === JSON.stringify(data[k]));
+    if (unchanged || !hasStats(stats)) {
+      console.warn(`[H2H] ${surface} filter didn't change the stats: ${data.h2hKey}`);
+      return;
     }
+
+    data.periods[key] = stats;
   }
 }
 
+/** Text of every stat row on the page, to notice when a tab or filter re-renders them */
+function rowsText(page: Page): Promise<string> {
+  return page.evaluate(() => Array.from(document.querySelectorAll('.data-table-row')).map(r => r.textContent).join('|'));
+}
+
+/** False when none of the headline stats were read */
+function hasStats(stats: H2HPeriodStats): boolean {
+  return stats.p1MatchWinsPct !== null || stats.p1AcesPerMatch !== null || stats.p1AvgGamesPerSet !== null;
+}
+
 export default TennisStatsScraper;
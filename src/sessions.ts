@@ -0,0 +1,144 @@
+/**
+ * Premium Session Manager
+ *
+ * Picks the premium account whose cookies the run uses. Every candidate is
+ * validated first (premium-only sections must render on a known H2H page),
+ * health is written back to tennisstats_accounts, and when the current account
+ * gets blocked mid-run the manager rotates to the next healthy one.
+ *
+ *   no-premium  → cookies expired / logged out: account marked dead and inactive
+ *   blocked     → Cloudflare or timeout: failure counted, inactive after maxFailures in a row
+ *
+ * Deactivations and running out of accounts are sent through the notifier.
+ */
+
+import TennisStatsScraper from './scraper';
+import { TennisStorage } from './storage';
+import { getNotifier, noAccountAlert, sessionAlert } from './notifier';
+import { SessionCheck, TennisStatsAccount } from './types';
+
+export const DEFAULT_PROBE_URL = 'https://tennisstats.com/h2h/jannik-sinner-vs-carlos-alcaraz';
+
+export interface SessionOptions {
+  probeUrl: string;       // H2H page whose premium sections prove the session works
+  maxFailures: number;    // consecutive blocked checks before an account is deactivated
+}
+
+export class SessionManager {
+  private accounts: TennisStatsAccount[] = [];
+  private next = 0;
+  private current: TennisStatsAccount | null = null;
+  private fixedCookies: string | null = null;
+  private switching: Promise<boolean> | null = null;
+  private switches = 0;
+
+  constructor(
+    private scraper: TennisStatsScraper,
+    private db: TennisStorage,
+    private options: SessionOptions
+  ) {}
+
+  /** Cookies of the account in use */
+  get cookies(): string {
+    if (this.fixedCookies !== null) return this.fixedCookies;
+    if (!this.current) throw new Error('No session — call start() first');
+    return this.current.sessionCookies;
+  }
+
+  get username(): string {
+    return this.current?.username || 'cookies file';
+  }
+
+  /** Bumped on every account switch, so callers can tell their pages are on old cookies */
+  get generation(): number {
+    return this.switches;
+  }
+
+  /** Use cookies from a file: validated and reported, but nothing to rotate to */
+  async useFixed(cookiesJson: string): Promise<boolean> {
+    this.fixedCookies = cookiesJson;
+    const check = await this.scraper.validateSession(cookiesJson, this.options.probeUrl);
+    if (check !== 'ok') console.warn(`[Session] Cookies file failed validation (${check}) — continuing anyway`);
+    if (check === 'no-premium') await getNotifier().notify(sessionAlert(this.username, check, 1));
+    return true;
+  }
+
+  /** Load active accounts and switch to the first one that validates */
+  async start(): Promise<boolean> {
+    this.accounts = await this.db.getActiveAccounts();
+    this.next = 0;
+    console.log(`[Session] ${this.accounts.length} active account(s)`);
+    return this.rotate();
+  }
+
+  /**
+   * Called when pages start failing. Re-checks the current account: if it still
+   * validates the failures were the site's, otherwise rotate. Concurrent callers
+   * share one check. Resolves false when no usable account is left.
+   */
+  async handleBlocked(): Promise<boolean> {
+    if (this.fixedCookies !== null) {
+      await getNotifier().notify(noAccountAlert('The cookies file keeps failing premium pages — re-export cookies from the browser.'));
+      return false;
+    }
+    if (!this.switching) {
+      this.switching = this.recheck().finally(() => { this.switching = null; });
+    }
+    return this.switching;
+  }
+
+  /** Record that the current account produced data this run */
+  async recordSuccess(): Promise<void> {
+    if (this.current) await this.db.recordAccountSuccess(this.current);
+  }
+
+  private async recheck(): Promise<boolean> {
+    const account = this.current;
+    if (!account) return this.rotate();
+
+    const check = await this.scraper.validateSession(account.sessionCookies, this.options.probeUrl);
+    if (check === 'ok') {
+      console.log(`[Session] ${account.username} still valid — treating failures as transient`);
+      return true;
+    }
+
+    await this.recordFailure(account, check);
+    return this.rotate();
+  }
+
+  private async rotate(): Promise<boolean> {
+    while (this.next < this.accounts.length) {
+      const account = this.accounts[this.next++];
+      const check = await this.scraper.validateSession(account.sessionCookies, this.options.probeUrl);
+
+      if (check === 'ok') {
+        account.health = 'healthy';
+        account.failureCount = 0;
+        await this.db.recordAccountSuccess(account);
+        this.current = account;
+        this.switches++;
+        console.log(`[Session] Using ${account.username}`);
+        return true;
+      }
+      await this.recordFailure(account, check);
+    }
+
+    this.current = null;
+    console.error('[Session] No healthy account left');
+    await getNotifier().notify(noAccountAlert());
+    return false;
+  }
+
+  private async recordFailure(account: TennisStatsAccount, check: SessionCheck): Promise<void> {
+    account.failureCount++;
+    account.health = check === 'no-premium' ? 'dead' : 'blocked';
+    const deactivate = account.health === 'dead' || account.failureCount >= this.options.maxFailures;
+
+    console.warn(`[Session] ${account.username}: ${check} (${account.failureCount} in a row)` +
+      (deactivate ? ' — deactivated' : ''));
+    await this.db.recordAccountFailure(account, check, deactivate);
+    if (deactivate) await getNotifier().notify(sessionAlert(account.username, check, account.failureCount));
+  }
+}
+
+export default SessionManager;
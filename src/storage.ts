@@ -0,0 +1,452 @@
+/**
+ * Storage Interface
+ *
+ * Everything the runner reads and writes — accounts, the tournament and player
+ * registries, daily matches, odds / live history, H2H records, backfill progress,
+ * sent alerts and run records — behind one interface, so the same run can write to Supabase
+ * (database.ts) or to a local SQLite file / JSON-lines directory (localstore.ts).
+ *
+ * Row mapping lives here too: every backend stores the same Supabase-shaped rows.
+ */
+
+import { BackfillProgress, DailyMatch, H2HData, H2HPeriodStats, Player, TennisStatsAccount } from './types';
+import { matchKey, roundOrder } from './parsers';
+import { H2HCacheState } from './freshness';
+import { ScrapeRunRecord } from './runledger';
+import { getPlayerRegistry } from './players';
+import { TournamentInfo } from './tournaments';
+import { QuarantineRecord } from './validation';
+import { Alert } from './notifier';
+
+export type StorageBackend = 'supabase' | 'sqlite' | 'jsonl';
+
+export const STORAGE_BACKENDS: StorageBackend[] = ['supabase', 'sqlite', 'jsonl'];
+
+export interface TennisStorage {
+  // Run ledger
+  startRun(run: ScrapeRunRecord): Promise<void>;
+  finishRun(run: ScrapeRunRecord): Promise<void>;
+
+  // Accounts
+  getActiveAccounts(): Promise<TennisStatsAccount[]>;
+  recordAccountSuccess(account: TennisStatsAccount): Promise<void>;
+  recordAccountFailure(account: TennisStatsAccount, reason: string, deactivate: boolean): Promise<void>;
+
+  // Registries
+  getPlayers(): Promise<Player[]>;
+  upsertPlayers(players: Player[]): Promise<void>;
+  getTournaments(): Promise<TournamentInfo[] | null>;
+  seedTournaments(tournaments: TournamentInfo[]): Promise<void>;
+
+  // Daily matches
+  upsertDailyMatches(matches: DailyMatch[], date: string): Promise<void>;
+  updateMatchResults(matches: DailyMatch[], date: string): Promise<number>;
+  recordOddsSnapshots(matches: DailyMatch[], date: string): Promise<void>;
+  recordLiveStates(matches: DailyMatch[], date: string): Promise<number>;
+  hasMatchesForDate(date: string): Promise<boolean>;
+
+  // H2H
+  upsertH2H(h2h: H2HData): Promise<void>;
+  upsertH2HPeriods(h2h: H2HData): Promise<void>;
+  getH2HCacheState(h2hUrls: string[]): Promise<H2HCacheState>;
+
+  // Rows that failed validation.ts, held back for review
+  quarantine(records: QuarantineRecord[]): Promise<void>;
+
+  // Alerts sent by notifier.ts, for the dedup cooldown
+  getAlertSentAt(key: string): Promise<string | null>;
+  recordAlert(alert: Alert): Promise<void>;
+
+  // Backfill
+  getBackfillProgress(date: string): Promise<BackfillProgress | null>;
+  saveBackfillProgress(progress: BackfillProgress): Promise<void>;
+
+  /** Flush and release local files; nothing to do for Supabase */
+  close?(): Promise<void>;
+}
+
+// ─── Row Mapping ─────────────────────────────────────────────────────────────
+
+/** tennis_h2h / tennis_h2h_periods columns for the period-dependent stat sections */
+export function statColumns(stats: H2HPeriodStats) {
+  return {
+    // Win % Breakdown
+    p1_match_wins_pct: stats.p1MatchWinsPct ?? null,
+    p2_match_wins_pct: stats.p2MatchWinsPct ?? null,
+    p1_straight_sets_pct: stats.p1StraightSetsPct ?? null,
+    p2_straight_sets_pct: stats.p2StraightSetsPct ?? null,
+    p1_wins_from_behind_pct: stats.p1WinsFromBehindPct ?? null,
+    p2_wins_from_behind_pct: stats.p2WinsFromBehindPct ?? null,
+    p1_set1_win_pct: stats.p1Set1WinPct ?? null,
+    p2_set1_win_pct: stats.p2Set1WinPct ?? null,
+    p1_set2_win_pct: stats.p1Set2WinPct ?? null,
+    p2_set2_win_pct: stats.p2Set2WinPct ?? null,
+    p1_set3_win_pct: stats.p1Set3WinPct ?? null,
+    p2_set3_win_pct: stats.p2Set3WinPct ?? null,
+    // Serve & Return
+    p1_aces_per_match: stats.p1AcesPerMatch ?? null,
+    p2_aces_per_match: stats.p2AcesPerMatch ?? null,
+    aces_match_total: stats.acesMatchTotal ?? null,
+    p1_double_faults_per_match: stats.p1DoubleFaultsPerMatch ?? null,
+    p2_double_faults_per_match: stats.p2DoubleFaultsPerMatch ?? null,
+    double_faults_match_total: stats.doubleFaultsMatchTotal ?? null,
+    p1_breaks_per_match: stats.p1BreaksPerMatch ?? null,
+    p2_breaks_per_match: stats.p2BreaksPerMatch ?? null,
+    breaks_match_total: stats.breaksMatchTotal ?? null,
+    p1_tiebreaks_per_match: stats.p1TiebreaksPerMatch ?? null,
+    p2_tiebreaks_per_match: stats.p2TiebreaksPerMatch ?? null,
+    tiebreaks_average: stats.tiebreaksAverage ?? null,
+    // Match Total Games
+    p1_avg_games_per_set: stats.p1AvgGamesPerSet ?? null,
+    p2_avg_games_per_set: stats.p2AvgGamesPerSet ?? null,
+    avg_games_per_set: stats.avgGamesPerSet ?? null,
+    games_over_20_5_pct: stats.gamesOver20_5Pct ?? null,
+    games_over_21_5_pct: stats.gamesOver21_5Pct ?? null,
+    games_over_22_5_pct: stats.gamesOver22_5Pct ?? null,
+    games_over_23_5_pct: stats.gamesOver23_5Pct ?? null,
+    games_over_24_5_pct: stats.gamesOver24_5Pct ?? null,
+    games_ladder: stats.gamesLadder,
+  };
+}
+
+/**
+ * player1_id / player2_id (and winner_id) resolved through the player registry.
+ * Doubles slugs name teams, not players, so doubles rows get none.
+ */
+export function playerIdColumns(h2hUrlOrKey: string, m: Pick<DailyMatch, 'category' | 'player1' | 'player2' | 'gender' | 'winner'>) {
+  const players = getPlayerRegistry();
+  const ids = m.category === 'Doubles' ? null : players.resolvePair(h2hUrlOrKey, m.player1.name, m.player2.name, m.gender);
+  return {
+    player1_id: ids ? ids[0] : null,
+    player2_id: ids ? ids[1] : null,
+    winner_id: ids && m.winner ? players.resolve(m.winner, ids) : null,
+  };
+}
+
+/** scrape_runs columns */
+export function runColumns(run: ScrapeRunRecord) {
+  return {
+    id: run.id,
+    command: run.command,
+    status: run.status,
+    started_at: run.startedAt,
+    finished_at: run.finishedAt,
+    account: run.account,
+    phases: run.phases,
+    h2h_successes: run.h2hSuccesses,
+    h2h_failures: run.h2hFailures,
+    h2h_failure_samples: run.h2hFailureSamples,
+    field_population: run.fieldPopulation,
+    skipped_tournaments: run.skippedTournaments,
+    error: run.error,
+  };
+}
+
+const HEALTH_RANK = { healthy: 0, unknown: 1, blocked: 2, dead: 3 };
+
+/** tennisstats_accounts rows → accounts, healthiest first (rows arrive most recently successful first) */
+export function accountsFromRows(rows: any[]): TennisStatsAccount[] {
+  return rows
+    .map(row => ({
+      username: row.username,
+      sessionCookies: row.session_cookies,
+      health: row.health_status || 'unknown',
+      lastSuccessAt: row.last_success_at || null,
+      lastFailureAt: row.last_failure_at || null,
+      failureCount: row.failure_count || 0,
+    } as TennisStatsAccount))
+    .sort((a, b) => HEALTH_RANK[a.health] - HEALTH_RANK[b.health]);
+}
+
+export function accountSuccessColumns() {
+  const now = new Date().toISOString();
+  return { health_status: 'healthy', last_success_at: now, last_validated_at: now, failure_count: 0, last_error: null };
+}
+
+export function accountFailureColumns(account: TennisStatsAccount, reason: string, deactivate: boolean) {
+  const now = new Date().toISOString();
+  return {
+    health_status: account.health,
+    last_failure_at: now,
+    last_validated_at: now,
+    failure_count: account.failureCount,
+    last_error: reason,
+    ...(deactivate ? { is_active: false } : {}),
+  };
+}
+
+export function playerFromRow(row: any): Player {
+  return {
+    id: row.id,
+    name: row.name,
+    aliases: row.aliases || [],
+    gender: row.gender || null,
+    nationality: row.nationality || null,
+  };
+}
+
+/** Nationality is maintained by hand, so it's never sent */
+export function playerColumns(p: Player) {
+  return {
+    id: p.id,
+    name: p.name,
+    aliases: p.aliases,
+    gender: p.gender,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+export function tournamentFromRow(t: any): TournamentInfo {
+  return {
+    name: t.name,
+    tier: t.tier,
+    gender: t.gender,
+    keywords: (t.keywords || []).map((k: string) => k.toLowerCase()),
+    excludeKeywords: t.exclude_keywords?.length ? t.exclude_keywords.map((k: string) => k.toLowerCase()) : undefined,
+    surface: t.surface || undefined,
+    location: t.location || undefined,
+    startDate: t.start_date || undefined,
+    endDate: t.end_date || undefined,
+    drawSize: t.draw_size || undefined,
+  };
+}
+
+export function tournamentColumns(t: TournamentInfo) {
+  return {
+    name: t.name,
+    tier: t.tier,
+    gender: t.gender,
+    keywords: t.keywords,
+    exclude_keywords: t.excludeKeywords || [],
+    surface: t.surface || null,
+    location: t.location || null,
+    start_date: t.startDate || null,
+    end_date: t.endDate || null,
+    draw_size: t.drawSize || null,
+    is_active: true,
+  };
+}
+
+/** tennis_daily_matches row, keyed on match_key (date + H2H slug) */
+export function dailyMatchColumns(m: DailyMatch, date: string, runId: string | null, seenAt: string) {
+  return {
+    ...playerIdColumns(m.h2hUrl, m),
+    match_key: matchKey(m.h2hUrl, date),
+    match_date: date,
+    run_id: runId,
+    tournament: m.tournament || '',
+    tournament_tier: m.tournamentTier || '',
+    tournament_official_name: m.tournamentOfficialName || '',
+    tournament_match_confidence: m.tournamentMatchConfidence ?? null,
+    tournament_match_reason: m.tournamentMatchReason || null,
+    country: m.country || '',
+    gender: m.gender || 'Men',
+    category: m.category || 'Singles',
+    surface: m.surface || 'Hard',
+    round: m.round,
+    round_label: m.roundLabel || null,
+    round_order: roundOrder(m.round),
+    player1_name: m.player1.name,
+    player1_ranking: m.player1.ranking,
+    player1_form: m.player1.formScore,
+    player1_odds: m.player1.odds,
+    player2_name: m.player2.name,
+    player2_ranking: m.player2.ranking,
+    player2_form: m.player2.formScore,
+    player2_odds: m.player2.odds,
+    scheduled_time: m.scheduledTime || null,
+    schedule_kind: m.scheduleKind || null,
+    scheduled_at: m.scheduledAt ?? null,
+    court: m.court || null,
+    court_order: m.courtOrder ?? null,
+    status: m.status || 'upcoming',
+    h2h_url: m.h2hUrl,
+    score: m.score || null,
+    set_scores: m.setScores || null,
+    winner: m.winner || null,
+    team1: m.team1 || null,
+    team2: m.team2 || null,
+    removed: false,
+    last_seen_at: seenAt,
+  };
+}
+
+/** Columns updateMatchResults writes onto an existing daily row */
+export function matchResultColumns(m: DailyMatch, runId: string | null) {
+  return {
+    status: 'finished',
+    score: m.score,
+    set_scores: m.setScores || null,
+    winner: m.winner || null,
+    winner_id: playerIdColumns(m.h2hUrl, m).winner_id,
+    run_id: runId,
+  };
+}
+
+/**
+ * Latest snapshot per match_key from a stored history (any order), with the opening
+ * odds taken from the first snapshot that had them — the tennis_odds_latest view in JS.
+ */
+export function latestOddsByKey(history: any[]): Map<string, any> {
+  const sorted = [...history].sort((a, b) => String(a.scraped_at).localeCompare(String(b.scraped_at)));
+  const latest = new Map<string, any>();
+  for (const snap of sorted) {
+    const prev = latest.get(snap.match_key);
+    latest.set(snap.match_key, {
+      match_key: snap.match_key,
+      scraped_at: snap.scraped_at,
+      player1_odds: snap.player1_odds,
+      player2_odds: snap.player2_odds,
+      player1_opening_odds: prev?.player1_opening_odds ?? snap.player1_odds ?? null,
+      player2_opening_odds: prev?.player2_opening_odds ?? snap.player2_odds ?? null,
+    });
+  }
+  return latest;
+}
+
+/**
+ * tennis_odds_snapshots rows. `previous` is the latest stored snapshot per match_key
+ * with its opening odds (tennis_odds_latest / latestOddsByKey): opening odds are carried
+ * from it, movement is current minus its odds (negative = shortened).
+ */
+export function oddsSnapshotRows(priced: DailyMatch[], date: string, previous: Map<string, any>, runId: string | null) {
+  const move = (current: number | null, prev: number | null | undefined) =>
+    current !== null && prev !== null && prev !== undefined ? Math.round((current - prev) * 100) / 100 : null;
+
+  const scrapedAt = new Date().toISOString();
+  return priced.map(m => {
+    const key = matchKey(m.h2hUrl, date);
+    const prev = previous.get(key);
+    return {
+      match_key: key,
+      match_date: date,
+      h2h_url: m.h2hUrl,
+      scraped_at: scrapedAt,
+      run_id: runId,
+      status: m.status || 'upcoming',
+      player1_odds: m.player1.odds,
+      player2_odds: m.player2.odds,
+      player1_opening_odds: prev ? prev.player1_opening_odds ?? m.player1.odds : m.player1.odds,
+      player2_opening_odds: prev ? prev.player2_opening_odds ?? m.player2.odds : m.player2.odds,
+      player1_odds_move: move(m.player1.odds, prev?.player1_odds),
+      player2_odds_move: move(m.player2.odds, prev?.player2_odds),
+    };
+  });
+}
+
+/** tennis_live_states rows for the in-play matches */
+export function liveStateRows(matches: DailyMatch[], date: string, runId: string | null) {
+  const scrapedAt = new Date().toISOString();
+  return matches
+    .filter(m => m.status === 'live' && m.live && m.h2hUrl)
+    .map(m => ({
+      match_key: matchKey(m.h2hUrl, date),
+      match_date: date,
+      scraped_at: scrapedAt,
+      run_id: runId,
+      server: m.live.server,
+      current_set: m.live.currentSet,
+      set_scores: m.live.setScores,
+      game_score: m.live.gameScore,
+    }));
+}
+
+/** tennis_h2h row; resolves (and registers) both players unless it's a doubles pair */
+export function h2hColumns(h2h: H2HData, runId: string | null) {
+  const players = getPlayerRegistry();
+  const ids = h2h.category === 'Doubles' ? null : players.resolvePair(h2h.h2hKey, h2h.player1, h2h.player2);
+  return {
+    player1_id: ids ? ids[0] : null,
+    player2_id: ids ? ids[1] : null,
+    h2h_key: h2h.h2hKey,
+    player1: h2h.player1,
+    player2: h2h.player2,
+    category: h2h.category,
+    // Full Stats
+    p1_rank: h2h.p1Rank ?? null,
+    p2_rank: h2h.p2Rank ?? null,
+    player1_wins: h2h.p1H2HWins,
+    player2_wins: h2h.p2H2HWins,
+    player1_sets: h2h.p1H2HSets,
+    player2_sets: h2h.p2H2HSets,
+    p1_calendar_year_win_pct: h2h.p1CalendarYearWinPct ?? null,
+    p1_calendar_year_record: h2h.p1CalendarYearRecord || null,
+    p2_calendar_year_win_pct: h2h.p2CalendarYearWinPct ?? null,
+    p2_calendar_year_record: h2h.p2CalendarYearRecord || null,
+    p1_last_12m_win_pct: h2h.p1Last12mWinPct ?? null,
+    p1_last_12m_record: h2h.p1Last12mRecord || null,
+    p2_last_12m_win_pct: h2h.p2Last12mWinPct ?? null,
+    p2_last_12m_record: h2h.p2Last12mRecord || null,
+    // Match History
+    match_history: h2h.matchHistory.map(e => ({ ...e, winnerId: ids ? players.resolve(e.winner, ids) || undefined : undefined })),
+    ...statColumns(h2h),
+    comparison_stats: null,
+    run_id: runId,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * One tennis_h2h_periods row per (h2h_key, period) with the stat sections of that tab,
+ * so Last 12 Months and surface tabs aren't lost behind the default view.
+ */
+export function h2hPeriodRows(h2h: H2HData, runId: string | null) {
+  const updatedAt = new Date().toISOString();
+  return Object.entries(h2h.periods || {}).map(([period, stats]) => ({
+    h2h_key: h2h.h2hKey,
+    period,
+    ...statColumns(stats),
+    run_id: runId,
+    updated_at: updatedAt,
+  }));
+}
+
+/** tennis_quarantine row, one per (kind, row_key): the latest failing version is kept */
+export function quarantineColumns(record: QuarantineRecord, runId: string | null) {
+  return {
+    kind: record.kind,
+    row_key: record.key,
+    reasons: record.reasons,
+    payload: record.payload,
+    run_id: runId,
+    quarantined_at: new Date().toISOString(),
+  };
+}
+
+/** tennis_alerts row, one per dedup key: when it last went out */
+export function alertColumns(alert: Alert, runId: string | null) {
+  return {
+    alert_key: alert.key,
+    kind: alert.kind,
+    title: alert.title,
+    message: alert.message,
+    details: alert.details || {},
+    run_id: runId,
+    sent_at: new Date().toISOString(),
+  };
+}
+
+export function backfillFromRow(row: any): BackfillProgress {
+  return {
+    date: row.match_date,
+    status: row.status,
+    matchesFound: row.matches_found || 0,
+    h2hTotal: row.h2h_total || 0,
+    h2hDoneKeys: row.h2h_done_keys || [],
+    h2hFailedKeys: row.h2h_failed_keys || [],
+    error: row.error || null,
+  };
+}
+
+export function backfillColumns(progress: BackfillProgress) {
+  return {
+    match_date: progress.date,
+    status: progress.status,
+    matches_found: progress.matchesFound,
+    h2h_total: progress.h2hTotal,
+    h2h_done_keys: progress.h2hDoneKeys,
+    h2h_failed_keys: progress.h2hFailedKeys,
+    error: progress.error,
+    updated_at: new Date().toISOString(),
+  };
+}
@@ -2,121 +2,352 @@
  * Supported Tournaments Filter
  * 
  * Only scrape matches from Grand Slams, Masters 1000, ATP 500, and WTA 500/1000
+ *
+ * The live registry is loaded from the `tennis_tournaments` table at startup
+ * (see setTournamentRegistry); SUPPORTED_TOURNAMENTS below is the seed/fallback.
+ * Its startDate/endDate are the 2026 main draws. Other seasons reuse them by month
+ * and day (see windowFit), so they only need updating when an event moves for good.
  */
 
+import { parseRound } from './parsers';
+import { Round } from './types';
+
 interface TournamentInfo {
   name: string;
   tier: 'Grand Slam' | 'Masters 1000' | 'WTA 1000' | 'ATP 500' | 'WTA 500';
   gender: 'Men' | 'Women' | 'Both';
-  keywords: string[]; // Keywords to match against homepage tournament names
+  keywords: string[]; // Whole-word keywords to match against homepage tournament names
+  excludeKeywords?: string[]; // Names containing these never match this event
+  surface?: 'Hard' | 'Clay' | 'Grass';
+  location?: string;
+  startDate?: string; // YYYY-MM-DD of one season's main draw; recurs yearly
+  endDate?: string;   // YYYY-MM-DD, same season as startDate
+  drawSize?: number;  // main-draw size, resolves "2nd Round"-style labels (see parseRound)
 }
 
+const TOURNAMENT_TIERS: TournamentInfo['tier'][] = ['Grand Slam', 'Masters 1000', 'WTA 1000', 'ATP 500', 'WTA 500'];
+
 const SUPPORTED_TOURNAMENTS: TournamentInfo[] = [
   // ── Grand Slams (Both) ──────────────────────────────────────
-  { name: 'Australian Open', tier: 'Grand Slam', gender: 'Both', keywords: ['australian open'] },
-  { name: 'French Open', tier: 'Grand Slam', gender: 'Both', keywords: ['french open', 'roland garros', 'roland-garros'] },
-  { name: 'Wimbledon', tier: 'Grand Slam', gender: 'Both', keywords: ['wimbledon'] },
-  { name: 'US Open', tier: 'Grand Slam', gender: 'Both', keywords: ['us open'] },
+  { name: 'Australian Open', tier: 'Grand Slam', gender: 'Both', keywords: ['australian open'], surface: 'Hard', location: 'Melbourne', drawSize: 128, startDate: '2026-01-18', endDate: '2026-02-01' },
+  { name: 'French Open', tier: 'Grand Slam', gender: 'Both', keywords: ['french open', 'roland garros', 'roland-garros'], surface: 'Clay', location: 'Paris', drawSize: 128, startDate: '2026-05-24', endDate: '2026-06-07' },
+  { name: 'Wimbledon', tier: 'Grand Slam', gender: 'Both', keywords: ['wimbledon'], surface: 'Grass', location: 'London', drawSize: 128, startDate: '2026-06-29', endDate: '2026-07-12' },
+  { name: 'US Open', tier: 'Grand Slam', gender: 'Both', keywords: ['us open'], surface: 'Hard', location: 'New York', drawSize: 128, startDate: '2026-08-31', endDate: '2026-09-13' },
 
   // ── ATP Masters 1000 ────────────────────────────────────────
-  { name: 'Indian Wells Masters', tier: 'Masters 1000', gender: 'Men', keywords: ['indian wells'] },
-  { name: 'Miami Open', tier: 'Masters 1000', gender: 'Men', keywords: ['miami'] },
-  { name: 'Monte-Carlo Masters', tier: 'Masters 1000', gender: 'Men', keywords: ['monte carlo', 'monte-carlo'] },
-  { name: 'Madrid Open', tier: 'Masters 1000', gender: 'Men', keywords: ['madrid'] },
-  { name: 'Italian Open', tier: 'Masters 1000', gender: 'Men', keywords: ['rome', 'italian open', 'internazionali'] },
-  { name: 'Canadian Open', tier: 'Masters 1000', gender: 'Men', keywords: ['canadian', 'montreal', 'toronto'] },
-  { name: 'Cincinnati Open', tier: 'Masters 1000', gender: 'Men', keywords: ['cincinnati'] },
-  { name: 'Shanghai Masters', tier: 'Masters 1000', gender: 'Men', keywords: ['shanghai'] },
-  { name: 'Paris Masters', tier: 'Masters 1000', gender: 'Men', keywords: ['paris'] },
+  { name: 'Indian Wells Masters', tier: 'Masters 1000', gender: 'Men', keywords: ['indian wells'], surface: 'Hard', location: 'Indian Wells', startDate: '2026-03-04', endDate: '2026-03-15' },
+  { name: 'Miami Open', tier: 'Masters 1000', gender: 'Men', keywords: ['miami'], surface: 'Hard', location: 'Miami', startDate: '2026-03-18', endDate: '2026-03-29' },
+  { name: 'Monte-Carlo Masters', tier: 'Masters 1000', gender: 'Men', keywords: ['monte carlo', 'monte-carlo'], surface: 'Clay', location: 'Monte Carlo', startDate: '2026-04-05', endDate: '2026-04-12' },
+  { name: 'Madrid Open', tier: 'Masters 1000', gender: 'Men', keywords: ['madrid'], surface: 'Clay', location: 'Madrid', startDate: '2026-04-22', endDate: '2026-05-03' },
+  { name: 'Italian Open', tier: 'Masters 1000', gender: 'Men', keywords: ['rome', 'italian open', 'internazionali'], surface: 'Clay', location: 'Rome', startDate: '2026-05-06', endDate: '2026-05-17' },
+  { name: 'Canadian Open', tier: 'Masters 1000', gender: 'Men', keywords: ['canadian', 'montreal', 'toronto'], surface: 'Hard', location: 'Montreal / Toronto', startDate: '2026-08-02', endDate: '2026-08-13' },
+  { name: 'Cincinnati Open', tier: 'Masters 1000', gender: 'Men', keywords: ['cincinnati'], surface: 'Hard', location: 'Cincinnati', startDate: '2026-08-13', endDate: '2026-08-24' },
+  { name: 'Shanghai Masters', tier: 'Masters 1000', gender: 'Men', keywords: ['shanghai'], surface: 'Hard', location: 'Shanghai', startDate: '2026-10-07', endDate: '2026-10-18' },
+  { name: 'Paris Masters', tier: 'Masters 1000', gender: 'Men', keywords: ['paris'], surface: 'Hard', location: 'Paris', startDate: '2026-10-26', endDate: '2026-11-01' },
 
   // ── WTA 1000 ────────────────────────────────────────────────
-  { name: 'Qatar Open', tier: 'WTA 1000', gender: 'Women', keywords: ['doha', 'qatar'] },
-  { name: 'Dubai Tennis Championships', tier: 'WTA 1000', gender: 'Women', keywords: ['dubai'] },
-  { name: 'Indian Wells Open', tier: 'WTA 1000', gender: 'Women', keywords: ['indian wells'] },
-  { name: 'Miami Open', tier: 'WTA 1000', gender: 'Women', keywords: ['miami'] },
-  { name: 'Madrid Open', tier: 'WTA 1000', gender: 'Women', keywords: ['madrid'] },
-  { name: 'Italian Open', tier: 'WTA 1000', gender: 'Women', keywords: ['rome', 'italian open'] },
-  { name: 'Canadian Open', tier: 'WTA 1000', gender: 'Women', keywords: ['canadian', 'montreal', 'toronto'] },
-  { name: 'Cincinnati Open', tier: 'WTA 1000', gender: 'Women', keywords: ['cincinnati'] },
-  { name: 'China Open', tier: 'WTA 1000', gender: 'Women', keywords: ['beijing', 'china open'] },
-  { name: 'Wuhan Open', tier: 'WTA 1000', gender: 'Women', keywords: ['wuhan'] },
+  { name: 'Qatar Open', tier: 'WTA 1000', gender: 'Women', keywords: ['doha', 'qatar'], surface: 'Hard', location: 'Doha', startDate: '2026-02-08', endDate: '2026-02-14' },
+  { name: 'Dubai Tennis Championships', tier: 'WTA 1000', gender: 'Women', keywords: ['dubai'], surface: 'Hard', location: 'Dubai', startDate: '2026-02-15', endDate: '2026-02-21' },
+  { name: 'Indian Wells Open', tier: 'WTA 1000', gender: 'Women', keywords: ['indian wells'], surface: 'Hard', location: 'Indian Wells', startDate: '2026-03-04', endDate: '2026-03-15' },
+  { name: 'Miami Open', tier: 'WTA 1000', gender: 'Women', keywords: ['miami'], surface: 'Hard', location: 'Miami', startDate: '2026-03-17', endDate: '2026-03-28' },
+  { name: 'Madrid Open', tier: 'WTA 1000', gender: 'Women', keywords: ['madrid'], surface: 'Clay', location: 'Madrid', startDate: '2026-04-21', endDate: '2026-05-02' },
+  { name: 'Italian Open', tier: 'WTA 1000', gender: 'Women', keywords: ['rome', 'italian open'], surface: 'Clay', location: 'Rome', startDate: '2026-05-05', endDate: '2026-05-16' },
+  { name: 'Canadian Open', tier: 'WTA 1000', gender: 'Women', keywords: ['canadian', 'montreal', 'toronto'], surface: 'Hard', location: 'Montreal / Toronto', startDate: '2026-08-02', endDate: '2026-08-13' },
+  { name: 'Cincinnati Open', tier: 'WTA 1000', gender: 'Women', keywords: ['cincinnati'], surface: 'Hard', location: 'Cincinnati', startDate: '2026-08-13', endDate: '2026-08-24' },
+  { name: 'China Open', tier: 'WTA 1000', gender: 'Women', keywords: ['beijing', 'china open'], surface: 'Hard', location: 'Beijing', startDate: '2026-09-23', endDate: '2026-10-04' },
+  { name: 'Wuhan Open', tier: 'WTA 1000', gender: 'Women', keywords: ['wuhan'], surface: 'Hard', location: 'Wuhan', startDate: '2026-10-05', endDate: '2026-10-11' },
 
   // ── ATP 500 ─────────────────────────────────────────────────
-  { name: 'Rotterdam Open', tier: 'ATP 500', gender: 'Men', keywords: ['rotterdam'] },
-  { name: 'Rio Open', tier: 'ATP 500', gender: 'Men', keywords: ['rio'] },
-  { name: 'Mexican Open', tier: 'ATP 500', gender: 'Men', keywords: ['acapulco', 'mexican open'] },
-  { name: 'Barcelona Open', tier: 'ATP 500', gender: 'Men', keywords: ['barcelona'] },
-  { name: 'Hamburg Open', tier: 'ATP 500', gender: 'Men', keywords: ['hamburg'] },
-  { name: "Queen's Club", tier: 'ATP 500', gender: 'Men', keywords: ["queen's", 'queens'] },
-  { name: 'Halle Open', tier: 'ATP 500', gender: 'Men', keywords: ['halle'] },
-  { name: 'Washington Open', tier: 'ATP 500', gender: 'Men', keywords: ['washington'] },
-  { name: 'China Open', tier: 'ATP 500', gender: 'Men', keywords: ['beijing', 'china open'] },
-  { name: 'Tokyo Open', tier: 'ATP 500', gender: 'Men', keywords: ['tokyo'] },
-  { name: 'Vienna Open', tier: 'ATP 500', gender: 'Men', keywords: ['vienna'] },
-  { name: 'Basel Open', tier: 'ATP 500', gender: 'Men', keywords: ['basel'] },
-  { name: 'Dubai Tennis Championships', tier: 'ATP 500', gender: 'Men', keywords: ['dubai'] },
-  { name: 'Qatar Open', tier: 'ATP 500', gender: 'Men', keywords: ['doha', 'qatar'] },
+  { name: 'Rotterdam Open', tier: 'ATP 500', gender: 'Men', keywords: ['rotterdam'], surface: 'Hard', location: 'Rotterdam', startDate: '2026-02-09', endDate: '2026-02-15' },
+  { name: 'Rio Open', tier: 'ATP 500', gender: 'Men', keywords: ['rio'], surface: 'Clay', location: 'Rio de Janeiro', startDate: '2026-02-16', endDate: '2026-02-22' },
+  { name: 'Mexican Open', tier: 'ATP 500', gender: 'Men', keywords: ['acapulco', 'mexican open'], surface: 'Hard', location: 'Acapulco', startDate: '2026-02-23', endDate: '2026-02-28' },
+  { name: 'Barcelona Open', tier: 'ATP 500', gender: 'Men', keywords: ['barcelona'], surface: 'Clay', location: 'Barcelona', startDate: '2026-04-13', endDate: '2026-04-19' },
+  { name: 'Hamburg Open', tier: 'ATP 500', gender: 'Men', keywords: ['hamburg'], surface: 'Clay', location: 'Hamburg', startDate: '2026-05-17', endDate: '2026-05-23' },
+  { name: "Queen's Club", tier: 'ATP 500', gender: 'Men', keywords: ["queen's", 'queens'], surface: 'Grass', location: 'London', startDate: '2026-06-15', endDate: '2026-06-21' },
+  { name: 'Halle Open', tier: 'ATP 500', gender: 'Men', keywords: ['halle'], surface: 'Grass', location: 'Halle', startDate: '2026-06-15', endDate: '2026-06-21' },
+  { name: 'Washington Open', tier: 'ATP 500', gender: 'Men', keywords: ['washington'], surface: 'Hard', location: 'Washington', startDate: '2026-07-27', endDate: '2026-08-02' },
+  { name: 'China Open', tier: 'ATP 500', gender: 'Men', keywords: ['beijing', 'china open'], surface: 'Hard', location: 'Beijing', startDate: '2026-09-30', endDate: '2026-10-06' },
+  { name: 'Tokyo Open', tier: 'ATP 500', gender: 'Men', keywords: ['tokyo'], surface: 'Hard', location: 'Tokyo', startDate: '2026-09-30', endDate: '2026-10-06' },
+  { name: 'Vienna Open', tier: 'ATP 500', gender: 'Men', keywords: ['vienna'], surface: 'Hard', location: 'Vienna', startDate: '2026-10-19', endDate: '2026-10-25' },
+  { name: 'Basel Open', tier: 'ATP 500', gender: 'Men', keywords: ['basel'], surface: 'Hard', location: 'Basel', startDate: '2026-10-19', endDate: '2026-10-25' },
+  { name: 'Dubai Tennis Championships', tier: 'ATP 500', gender: 'Men', keywords: ['dubai'], surface: 'Hard', location: 'Dubai', startDate: '2026-02-23', endDate: '2026-02-28' },
+  { name: 'Qatar Open', tier: 'ATP 500', gender: 'Men', keywords: ['doha', 'qatar'], surface: 'Hard', location: 'Doha', startDate: '2026-02-16', endDate: '2026-02-21' },
 
   // ── WTA 500 ─────────────────────────────────────────────────
-  { name: 'Adelaide International', tier: 'WTA 500', gender: 'Women', keywords: ['adelaide'] },
-  { name: 'Brisbane International', tier: 'WTA 500', gender: 'Women', keywords: ['brisbane'] },
-  { name: 'St. Petersburg Open', tier: 'WTA 500', gender: 'Women', keywords: ['st. petersburg', 'st petersburg', 'saint petersburg'] },
-  { name: 'Charleston Open', tier: 'WTA 500', gender: 'Women', keywords: ['charleston'] },
-  { name: 'Stuttgart Open', tier: 'WTA 500', gender: 'Women', keywords: ['stuttgart'] },
-  { name: 'Washington Open', tier: 'WTA 500', gender: 'Women', keywords: ['washington'] },
-  { name: 'San Diego Open', tier: 'WTA 500', gender: 'Women', keywords: ['san diego'] },
-  { name: 'Tokyo Open', tier: 'WTA 500', gender: 'Women', keywords: ['tokyo'] },
-  { name: 'Zhengzhou Open', tier: 'WTA 500', gender: 'Women', keywords: ['zhengzhou'] },
-  { name: 'Linz Open', tier: 'WTA 500', gender: 'Women', keywords: ['linz'] },
-  { name: 'Moscow Open', tier: 'WTA 500', gender: 'Women', keywords: ['moscow'] },
-  { name: 'Abu Dhabi Open', tier: 'WTA 500', gender: 'Women', keywords: ['abu dhabi'] },
-  { name: 'Eastbourne International', tier: 'WTA 500', gender: 'Women', keywords: ['eastbourne'] },
+  { name: 'Adelaide International', tier: 'WTA 500', gender: 'Women', keywords: ['adelaide'], surface: 'Hard', location: 'Adelaide', startDate: '2026-01-11', endDate: '2026-01-17' },
+  { name: 'Brisbane International', tier: 'WTA 500', gender: 'Women', keywords: ['brisbane'], surface: 'Hard', location: 'Brisbane', startDate: '2026-01-04', endDate: '2026-01-11' },
+  { name: 'Charleston Open', tier: 'WTA 500', gender: 'Women', keywords: ['charleston'], surface: 'Clay', location: 'Charleston', startDate: '2026-03-30', endDate: '2026-04-05' },
+  { name: 'Stuttgart Open', tier: 'WTA 500', gender: 'Women', keywords: ['stuttgart'], surface: 'Clay', location: 'Stuttgart', startDate: '2026-04-13', endDate: '2026-04-19' },
+  { name: 'Washington Open', tier: 'WTA 500', gender: 'Women', keywords: ['washington'], surface: 'Hard', location: 'Washington', startDate: '2026-07-27', endDate: '2026-08-02' },
+  { name: 'San Diego Open', tier: 'WTA 500', gender: 'Women', keywords: ['san diego'], surface: 'Hard', location: 'San Diego', startDate: '2026-02-23', endDate: '2026-03-01' },
+  { name: 'Tokyo Open', tier: 'WTA 500', gender: 'Women', keywords: ['tokyo'], surface: 'Hard', location: 'Tokyo', startDate: '2026-10-19', endDate: '2026-10-25' },
+  { name: 'Zhengzhou Open', tier: 'WTA 500', gender: 'Women', keywords: ['zhengzhou'], surface: 'Hard', location: 'Zhengzhou', startDate: '2026-10-12', endDate: '2026-10-18' },
+  { name: 'Linz Open', tier: 'WTA 500', gender: 'Women', keywords: ['linz'], surface: 'Hard', location: 'Linz', startDate: '2026-02-02', endDate: '2026-02-08' },
+  { name: 'Abu Dhabi Open', tier: 'WTA 500', gender: 'Women', keywords: ['abu dhabi'], surface: 'Hard', location: 'Abu Dhabi', startDate: '2026-02-01', endDate: '2026-02-07' },
+  { name: 'Eastbourne International', tier: 'WTA 500', gender: 'Women', keywords: ['eastbourne'], surface: 'Grass', location: 'Eastbourne', startDate: '2026-06-21', endDate: '2026-06-27' },
 ];
 
+let registry: TournamentInfo[] = SUPPORTED_TOURNAMENTS;
+
+/** Replace the in-memory registry (e.g. with rows loaded from Supabase) */
+export function setTournamentRegistry(tournaments: TournamentInfo[]): void {
+  registry = tournaments;
+}
+
+export function getTournamentRegistry(): TournamentInfo[] {
+  return registry;
+}
+
 /**
- * Check if a tournament from TennisStats homepage matches a supported tournament.
- * Returns the tournament info if matched, null if not supported.
- * 
+ * Sanity-check a registry before using it.
+ * Returns human-readable problems: unknown tiers, empty keyword lists, bad date
+ * windows, and keywords that overlap between two events for the same gender
+ * (a name containing both would match two events).
+ */
+export function validateTournamentRegistry(tournaments: TournamentInfo[]): string[] {
+  const problems: string[] = [];
+  const gendersOverlap = (a: TournamentInfo['gender'], b: TournamentInfo['gender']) =>
+    a === 'Both' || b === 'Both' || a === b;
+
+  for (const t of tournaments) {
+    if (!TOURNAMENT_TIERS.includes(t.tier)) problems.push(`${t.name}: unknown tier "${t.tier}"`);
+    if (!t.keywords || t.keywords.length === 0) problems.push(`${t.name}: no keywords`);
+    if (t.startDate && t.endDate && t.startDate > t.endDate) {
+      problems.push(`${t.name}: startDate ${t.startDate} is after endDate ${t.endDate}`);
+    }
+  }
+
+  for (let i = 0; i < tournaments.length; i++) {
+    for (let j = i + 1; j < tournaments.length; j++) {
+      const a = tournaments[i];
+      const b = tournaments[j];
+      if (!gendersOverlap(a.gender, b.gender)) continue;
+
+      for (const ka of a.keywords || []) {
+        for (const kb of b.keywords || []) {
+          const ta = tokenize(ka);
+          const tb = tokenize(kb);
+          if (containsTokens(ta, tb) || containsTokens(tb, ta)) {
+            problems.push(`Keyword overlap: "${ka}" (${a.name}, ${a.gender}) vs "${kb}" (${b.name}, ${b.gender})`);
+          }
+        }
+      }
+    }
+  }
+
+  return problems;
+}
+
+// ─── Matching ────────────────────────────────────────────────────────────────
+
+/** Names containing any of these are never a supported main-tour event */
+const GLOBAL_EXCLUDE_KEYWORDS = ['challenger', 'itf', 'utr', 'juniors', 'junior', 'boys', 'girls', 'wheelchair', 'exhibition'];
+
+/** Tour/category words the homepage appends to event names ("Rotterdam ATP") */
+const TOUR_TOKENS = ['atp', 'wta', 'men', 'women', 'mens', 'womens', 'singles', 'doubles'];
+
+/** Days of qualifying before an event's official start that still count as in-window */
+const QUALIFYING_LEAD_DAYS = 7;
+
+export interface TournamentDecision {
+  tournament: TournamentInfo | null;
+  confidence: number; // 0 when unmatched, up to 1 for an exact in-window name match
+  reason: string;
+}
+
+export interface UnmatchedTournament {
+  name: string;
+  gender: string;
+  matchCount: number;
+  reason: string;
+}
+
+/** "Queen's Club – Men" → ['queens', 'club', 'men'] (lowercase, accents and punctuation stripped) */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/** Whether `needle` appears as a run of whole tokens inside `haystack` */
+function containsTokens(haystack: string[], needle: string[]): boolean {
+  if (needle.length === 0 || needle.length > haystack.length) return false;
+  for (let i = 0; i + needle.length <= haystack.length; i++) {
+    if (needle.every((tok, j) => haystack[i + j] === tok)) return true;
+  }
+  return false;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(date + 'T00:00:00Z');
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+/** Days an event's dates may move between seasons, allowed when recurring a window */
+const SEASON_DRIFT_DAYS = 7;
+
+/**
+ * How `date` sits against the event's window, starting `leadDays` before startDate:
+ *   season     inside the stored dates (same season)
+ *   recurring  another year, inside the same month/day window widened by `driftDays`
+ *   outside    neither
+ *   null       the event has no window, or no date was given
+ */
+function windowFit(t: TournamentInfo, date: string | undefined, leadDays: number, driftDays: number): 'season' | 'recurring' | 'outside' | null {
+  if (!date || !t.startDate || !t.endDate) return null;
+  const start = addDays(t.startDate, -leadDays);
+  if (date >= start && date <= t.endDate) return 'season';
+
+  const year = date.slice(0, 4);
+  if (start.slice(0, 4) === year && t.endDate.slice(0, 4) === year) return 'outside';
+  const from = addDays(start, -driftDays).slice(5);
+  const to = addDays(t.endDate, driftDays).slice(5);
+  const monthDay = date.slice(5);
+  // A window over New Year ("12-28".."01-04") wraps
+  const inside = from <= to ? monthDay >= from && monthDay <= to : monthDay >= from || monthDay <= to;
+  return inside ? 'recurring' : 'outside';
+}
+
+/**
+ * Registry events whose main draw covers `date` — the stored dates, or the same
+ * month/day in another year (no drift allowance, so an off week doesn't count)
+ */
+export function tournamentsInPlay(date: string): TournamentInfo[] {
+  return registry.filter(t => {
+    const fit = windowFit(t, date, 0, 0);
+    return fit === 'season' || fit === 'recurring';
+  });
+}
+
+/**
+ * Decide whether a TennisStats homepage tournament name is a supported event.
+ *
+ * Keywords must match as whole words ("rio" matches "Rio ATP" but not "Ferrol Trio"), names
+ * with exclusion words (Challenger, ITF, …) are rejected, and when a date is given, events
+ * with a calendar window only match inside it — in other seasons the same month/day window,
+ * a week wider and at lower confidence. If several events match, the most confident wins.
+ *
  * Homepage format examples: "Rotterdam ATP", "Buenos Aires ATP", "Australian Open"
  */
-export function matchTournament(
+export function resolveTournament(
   homepageName: string,
-  gender: 'Men' | 'Women'
-): TournamentInfo | null {
-  const nameLower = homepageName.toLowerCase().trim();
+  gender: 'Men' | 'Women',
+  date?: string
+): TournamentDecision {
+  const tokens = tokenize(homepageName);
+  const coreTokens = tokens.filter(t => !TOUR_TOKENS.includes(t));
+
+  const excluded = GLOBAL_EXCLUDE_KEYWORDS.find(k => containsTokens(tokens, tokenize(k)));
+  if (excluded) {
+    return { tournament: null, confidence: 0, reason: `excluded keyword "${excluded}"` };
+  }
 
-  for (const t of SUPPORTED_TOURNAMENTS) {
-    // Check gender compatibility
+  const candidates: Array<TournamentDecision & { keywordLength: number }> = [];
+  const rejections: string[] = [];
+
+  for (const t of registry) {
     if (t.gender !== 'Both' && t.gender !== gender) continue;
 
-    // Check if any keyword matches
+    const ownExclude = (t.excludeKeywords || []).find(k => containsTokens(tokens, tokenize(k)));
+
     for (const keyword of t.keywords) {
-      if (nameLower.includes(keyword)) {
-        return t;
+      const kwTokens = tokenize(keyword);
+      if (!containsTokens(tokens, kwTokens)) continue;
+
+      if (ownExclude) {
+        rejections.push(`${t.name}: excluded keyword "${ownExclude}"`);
+        break;
+      }
+
+      const window = windowFit(t, date, QUALIFYING_LEAD_DAYS, SEASON_DRIFT_DAYS);
+      if (window === 'outside') {
+        rejections.push(`${t.name}: ${date} outside ${t.startDate}..${t.endDate} (by month/day in other years)`);
+        break;
       }
+
+      const exact = coreTokens.join(' ') === kwTokens.join(' ');
+      let confidence = exact ? 0.9 : 0.7;
+      const notes = [`keyword "${keyword}"`, exact ? 'exact name' : 'word match'];
+      if (window === 'season') {
+        confidence += 0.1;
+        notes.push('in calendar window');
+      } else if (window === 'recurring') {
+        // Dates carried over from another season are only approximately right
+        confidence += 0.05;
+        notes.push(`in recurring window (${t.startDate.slice(0, 4)} dates)`);
+      }
+
+      candidates.push({ tournament: t, confidence, reason: notes.join(', '), keywordLength: kwTokens.length });
+      break;
     }
   }
 
-  return null;
+  if (candidates.length === 0) {
+    return {
+      tournament: null,
+      confidence: 0,
+      reason: rejections.length > 0 ? rejections.join('; ') : 'no keyword match',
+    };
+  }
+
+  candidates.sort((a, b) => b.confidence - a.confidence || b.keywordLength - a.keywordLength);
+  const best = candidates[0];
+  const others = candidates.slice(1).map(c => c.tournament.name);
+  return {
+    tournament: best.tournament,
+    confidence: Math.round(best.confidence * 100) / 100,
+    reason: best.reason + (others.length > 0 ? ` (also matched: ${others.join(', ')})` : ''),
+  };
 }
 
+/**
+ * Check if a tournament from TennisStats homepage matches a supported tournament.
+ * Returns the tournament info if matched, null if not supported.
+ */
+export function matchTournament(
+  homepageName: string,
+  gender: 'Men' | 'Women',
+  date?: string
+): TournamentInfo | null {
+  return resolveTournament(homepageName, gender, date).tournament;
+}
+
+type SupportedMatch<T> = T & {
+  tournamentTier: string;
+  tournamentOfficialName: string;
+  tournamentMatchConfidence: number;
+  tournamentMatchReason: string;
+};
+
 /**
  * Filter an array of matches to only supported tournaments
  */
-export function filterSupportedMatches<T extends { tournament: string; gender: string }>(
-  matches: T[]
-): (T & { tournamentTier: string; tournamentOfficialName: string })[] {
-  const supported: (T & { tournamentTier: string; tournamentOfficialName: string })[] = [];
+export function filterSupportedMatches<T extends { tournament: string; gender: string; round?: Round | null; roundLabel?: string }>(
+  matches: T[],
+  date?: string
+): SupportedMatch<T>[] {
+  const supported: SupportedMatch<T>[] = [];
   const skipped = new Set<string>();
 
   for (const match of matches) {
-    const info = matchTournament(match.tournament, match.gender as 'Men' | 'Women');
-    if (info) {
+    const decision = resolveTournament(match.tournament, match.gender as 'Men' | 'Women', date);
+    if (decision.tournament) {
       supported.push({
         ...match,
-        tournamentTier: info.tier,
-        tournamentOfficialName: info.name,
-      } as T & { tournamentTier: string; tournamentOfficialName: string });
+        tournamentTier: decision.tournament.tier,
+        tournamentOfficialName: decision.tournament.name,
+        tournamentMatchConfidence: decision.confidence,
+        tournamentMatchReason: decision.reason,
+        // Ordinal labels need the event's draw size, known only now
+        ...(!match.round && match.roundLabel && decision.tournament.drawSize
+          ? { round: parseRound(match.roundLabel, decision.tournament.drawSize) }
+          : {}),
+      });
     } else {
       skipped.add(match.tournament);
     }
@@ -130,4 +361,31 @@ export function filterSupportedMatches<T extends { tournament: string; gender: s
   return supported;
 }
 
+/**
+ * Homepage tournament names that didn't resolve to a supported event, with the
+ * reason, so mislabelled or missing registry entries can be spotted.
+ */
+export function reportUnmatchedTournaments<T extends { tournament: string; gender: string }>(
+  matches: T[],
+  date?: string
+): UnmatchedTournament[] {
+  const report = new Map<string, UnmatchedTournament>();
+
+  for (const match of matches) {
+    const key = match.tournament + '|' + match.gender;
+    const existing = report.get(key);
+    if (existing) {
+      existing.matchCount++;
+      continue;
+    }
+
+    const decision = resolveTournament(match.tournament, match.gender as 'Men' | 'Women', date);
+    if (!decision.tournament) {
+      report.set(key, { name: match.tournament, gender: match.gender, matchCount: 1, reason: decision.reason });
+    }
+  }
+
+  return Array.from(report.values()).sort((a, b) => b.matchCount - a.matchCount);
+}
+
 export { SUPPORTED_TOURNAMENTS, TournamentInfo };
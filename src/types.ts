@@ -0,0 +1,198 @@
+/**
+ * Shared data shapes for the TennisStats scraper.
+ *
+ * Produced by the HTML parsers (parsers.ts) and consumed by the DB layer.
+ */
+
+/** Tournament rounds, earliest first — index order is round depth */
+export const ROUNDS = ['Q1', 'Q2', 'Q3', 'R128', 'R64', 'R32', 'R16', 'QF', 'SF', 'F'] as const;
+export type Round = typeof ROUNDS[number];
+
+export interface DailyMatch {
+  tournament: string;
+  tournamentTier?: string;
+  tournamentOfficialName?: string;
+  tournamentMatchConfidence?: number; // 0–1, how sure the registry match is
+  tournamentMatchReason?: string;
+  country: string;
+  gender: 'Men' | 'Women';
+  category: 'Singles' | 'Doubles';
+  round: Round | null;                // null when the page doesn't say (see parseRound)
+  roundLabel?: string;                // the text the round was read from
+  surface: 'Hard' | 'Clay' | 'Grass';
+  player1: {
+    name: string;
+    ranking: number | null;
+    formScore: number;
+    odds: number | null;
+  };
+  player2: {
+    name: string;
+    ranking: number | null;
+    formScore: number;
+    odds: number | null;
+  };
+  scheduledTime: string;              // raw text: "3:30 pm", "NB 3:30 pm", "After previous match"
+  scheduleKind?: 'fixed' | 'not_before' | 'after_previous';
+  scheduledAt?: string | null;        // UTC ISO start; the earliest start for not_before / after_previous
+  court?: string;
+  courtOrder?: number;                // 1-based position in the court's order of play
+  status: 'upcoming' | 'live' | 'finished';
+  h2hUrl: string;
+  // Finished matches only
+  score?: string;                     // "6-4 3-6 7-6", player1 games first
+  setScores?: Array<[number, number]>;
+  winner?: string;                    // winning player's name as shown on the homepage
+  // Live matches only
+  live?: LiveState;
+  // Doubles only — player1/player2 then hold the team ("A / B"), its ranking and odds
+  team1?: DoublesTeam;
+  team2?: DoublesTeam;
+}
+
+/** One side of a doubles match */
+export interface DoublesTeam {
+  players: [{ name: string; ranking: number | null }, { name: string; ranking: number | null }];
+  ranking: number | null;             // team ranking as shown; the sum when only individual ones are shown
+  odds: number | null;
+}
+
+/** In-play snapshot of a live homepage row */
+export interface LiveState {
+  server: 'player1' | 'player2' | null;
+  currentSet: number;                   // 1-based
+  setScores: Array<[number, number]>;   // finished sets + the set in progress
+  gameScore: [string, string] | null;   // points in the current game ("15", "40", "A"); null when unknown
+}
+
+/** One over/under games line, normalised to "over" percentages */
+export interface GamesLadderEntry {
+  scope: 'match' | 'set';
+  line: number;
+  p1OverPct: number | null;
+  p2OverPct: number | null;
+  combinedOverPct: number | null;
+}
+
+/** Numeric stats are null when the page doesn't show them; 0 is a real zero */
+export interface H2HData {
+  h2hKey: string;
+  player1: string;                    // doubles pages: "A / B"
+  player2: string;
+  category: DailyMatch['category'];
+  // Full Stats
+  p1Rank: number | null;
+  p2Rank: number | null;
+  p1H2HWins: number | null;
+  p2H2HWins: number | null;
+  p1H2HSets: number | null;
+  p2H2HSets: number | null;
+  p1CalendarYearWinPct: number | null;
+  p1CalendarYearRecord: string;
+  p2CalendarYearWinPct: number | null;
+  p2CalendarYearRecord: string;
+  p1Last12mWinPct: number | null;
+  p1Last12mRecord: string;
+  p2Last12mWinPct: number | null;
+  p2Last12mRecord: string;
+  // Match History
+  matchHistory: Array<{
+    date: string;
+    tournament: string;
+    surface: string;
+    winner: string;
+    winnerId?: string;                // tennis_players.id, resolved at write time
+    score: string;
+  }>;
+  // Win Percentage (Last 12 Months, All Surfaces)
+  p1MatchWinsPct: number | null;
+  p2MatchWinsPct: number | null;
+  p1StraightSetsPct: number | null;
+  p2StraightSetsPct: number | null;
+  p1WinsFromBehindPct: number | null;
+  p2WinsFromBehindPct: number | null;
+  p1Set1WinPct: number | null;
+  p2Set1WinPct: number | null;
+  p1Set2WinPct: number | null;
+  p2Set2WinPct: number | null;
+  p1Set3WinPct: number | null;
+  p2Set3WinPct: number | null;
+  // Serve & Return Stats (Last 12 Months, All Surfaces)
+  p1AcesPerMatch: number | null;
+  p2AcesPerMatch: number | null;
+  acesMatchTotal: number | null;
+  p1DoubleFaultsPerMatch: number | null;
+  p2DoubleFaultsPerMatch: number | null;
+  doubleFaultsMatchTotal: number | null;
+  p1BreaksPerMatch: number | null;
+  p2BreaksPerMatch: number | null;
+  breaksMatchTotal: number | null;
+  p1TiebreaksPerMatch: number | null;
+  p2TiebreaksPerMatch: number | null;
+  tiebreaksAverage: number | null;
+  // Match Total Games (Last 12 Months, All Surfaces)
+  p1AvgGamesPerSet: number | null;
+  p2AvgGamesPerSet: number | null;
+  avgGamesPerSet: number | null;
+  gamesOver20_5Pct: number | null;
+  gamesOver21_5Pct: number | null;
+  gamesOver22_5Pct: number | null;
+  gamesOver23_5Pct: number | null;
+  gamesOver24_5Pct: number | null;
+  // Every over/under row in the section, keyed by "<scope>:<line>" (e.g. "match:22.5", "set:9.5")
+  gamesLadder: Record<string, GamesLadderEntry>;
+  // The stat sections above, once per toggle tab, keyed by period ("calendar_year", "last_12m", ...)
+  // Surface-filtered views are stored here too, under "hard" / "clay" / "grass"
+  periods: Record<string, H2HPeriodStats>;
+}
+
+/** Stat-section fields that change with the period tab selected on the H2H page */
+export type H2HStatKey =
+  | 'p1MatchWinsPct' | 'p2MatchWinsPct'
+  | 'p1StraightSetsPct' | 'p2StraightSetsPct'
+  | 'p1WinsFromBehindPct' | 'p2WinsFromBehindPct'
+  | 'p1Set1WinPct' | 'p2Set1WinPct'
+  | 'p1Set2WinPct' | 'p2Set2WinPct'
+  | 'p1Set3WinPct' | 'p2Set3WinPct'
+  | 'p1AcesPerMatch' | 'p2AcesPerMatch' | 'acesMatchTotal'
+  | 'p1DoubleFaultsPerMatch' | 'p2DoubleFaultsPerMatch' | 'doubleFaultsMatchTotal'
+  | 'p1BreaksPerMatch' | 'p2BreaksPerMatch' | 'breaksMatchTotal'
+  | 'p1TiebreaksPerMatch' | 'p2TiebreaksPerMatch' | 'tiebreaksAverage'
+  | 'p1AvgGamesPerSet' | 'p2AvgGamesPerSet' | 'avgGamesPerSet'
+  | 'gamesOver20_5Pct' | 'gamesOver21_5Pct' | 'gamesOver22_5Pct' | 'gamesOver23_5Pct' | 'gamesOver24_5Pct'
+  | 'gamesLadder';
+
+export type H2HPeriodStats = Pick<H2HData, H2HStatKey>;
+
+/** Per-day state of a historical backfill (tennis_backfill_progress) */
+export interface BackfillProgress {
+  date: string;                       // YYYY-MM-DD
+  status: 'pending' | 'homepage_done' | 'complete' | 'failed';
+  matchesFound: number;
+  h2hTotal: number;
+  h2hDoneKeys: string[];              // h2h keys already scraped for this day
+  h2hFailedKeys: string[];            // h2h keys that failed for good (not-found / invalid) — not retried
+  error: string | null;
+}
+
+/** One premium login in tennisstats_accounts, with its health bookkeeping */
+export interface TennisStatsAccount {
+  username: string;
+  sessionCookies: string;             // JSON cookie array exported from the browser
+  health: 'unknown' | 'healthy' | 'blocked' | 'dead';
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  failureCount: number;               // consecutive failures since the last success
+}
+
+/** Result of loading a premium-only page with an account's cookies */
+export type SessionCheck = 'ok' | 'blocked' | 'no-premium';
+
+/** Canonical player (tennis_players), keyed by the TennisStats slug from H2H URLs */
+export interface Player {
+  id: string;                         // e.g. "jannik-sinner"
+  name: string;                       // display name, first one seen
+  aliases: string[];                  // every spelling seen on the site
+  gender: 'Men' | 'Women' | null;
+  nationality: string | null;         // not on the pages we scrape; filled in by hand
+}
@@ -0,0 +1,222 @@
+/**
+ * Row Validation
+ *
+ * Declared schemas for H2HData and DailyMatch, plus cross-field rules, checked
+ * by the storage backends before anything is written. Missing values are null
+ * (parsers.ts never turns a missing cell into 0) and are only rejected for
+ * required fields; a real 0 is checked like any other number.
+ *
+ * Rows that break a rule go to `tennis_quarantine` with the reasons instead of
+ * the main tables; a quarantined H2H page fails with an `invalid` ScrapeError.
+ */
+
+import { DailyMatch, H2HData, H2HStatKey } from './types';
+import { h2hSlug, matchKey } from './parsers';
+import { ScrapeError } from './errors';
+
+export type FieldKind = 'text' | 'pct' | 'count' | 'rate' | 'rank' | 'odds' | 'enum';
+
+export interface FieldSpec {
+  kind: FieldKind;
+  required?: boolean;       // null / '' / undefined is a violation
+  values?: string[];        // enum only
+}
+
+/** Value ranges per numeric kind */
+const RANGES: Record<Exclude<FieldKind, 'text' | 'enum'>, { min: number; max: number; integer: boolean }> = {
+  pct: { min: 0, max: 100, integer: false },
+  count: { min: 0, max: Infinity, integer: true },
+  rate: { min: 0, max: 100, integer: false },       // per-match / per-set averages
+  rank: { min: 1, max: Infinity, integer: true },
+  odds: { min: 1.01, max: 1000, integer: false },
+};
+
+const text = (required = false): FieldSpec => ({ kind: 'text', required });
+const pct: FieldSpec = { kind: 'pct' };
+const count: FieldSpec = { kind: 'count' };
+const rate: FieldSpec = { kind: 'rate' };
+const rank: FieldSpec = { kind: 'rank' };
+const odds: FieldSpec = { kind: 'odds' };
+const oneOf = (...values: string[]): FieldSpec => ({ kind: 'enum', required: true, values });
+
+// ─── Schemas ─────────────────────────────────────────────────────────────────
+
+/** Stat-section fields, checked on the default view and on every period tab */
+export const H2H_STAT_SCHEMA: Record<Exclude<H2HStatKey, 'gamesLadder'>, FieldSpec> = {
+  p1MatchWinsPct: pct, p2MatchWinsPct: pct,
+  p1StraightSetsPct: pct, p2StraightSetsPct: pct,
+  p1WinsFromBehindPct: pct, p2WinsFromBehindPct: pct,
+  p1Set1WinPct: pct, p2Set1WinPct: pct,
+  p1Set2WinPct: pct, p2Set2WinPct: pct,
+  p1Set3WinPct: pct, p2Set3WinPct: pct,
+  p1AcesPerMatch: rate, p2AcesPerMatch: rate, acesMatchTotal: rate,
+  p1DoubleFaultsPerMatch: rate, p2DoubleFaultsPerMatch: rate, doubleFaultsMatchTotal: rate,
+  p1BreaksPerMatch: rate, p2BreaksPerMatch: rate, breaksMatchTotal: rate,
+  p1TiebreaksPerMatch: rate, p2TiebreaksPerMatch: rate, tiebreaksAverage: rate,
+  p1AvgGamesPerSet: rate, p2AvgGamesPerSet: rate, avgGamesPerSet: rate,
+  gamesOver20_5Pct: pct, gamesOver21_5Pct: pct, gamesOver22_5Pct: pct, gamesOver23_5Pct: pct, gamesOver24_5Pct: pct,
+};
+
+export const H2H_SCHEMA: Record<Exclude<keyof H2HData, 'matchHistory' | 'gamesLadder' | 'periods'>, FieldSpec> = {
+  h2hKey: text(true),
+  player1: text(true),
+  player2: text(true),
+  category: oneOf('Singles', 'Doubles'),
+  p1Rank: rank, p2Rank: rank,
+  p1H2HWins: count, p2H2HWins: count,
+  p1H2HSets: count, p2H2HSets: count,
+  p1CalendarYearWinPct: pct, p1CalendarYearRecord: text(),
+  p2CalendarYearWinPct: pct, p2CalendarYearRecord: text(),
+  p1Last12mWinPct: pct, p1Last12mRecord: text(),
+  p2Last12mWinPct: pct, p2Last12mRecord: text(),
+  ...H2H_STAT_SCHEMA,
+};
+
+/** DailyMatch fields by path ("player1.odds") */
+export const DAILY_MATCH_SCHEMA: Record<string, FieldSpec> = {
+  'h2hUrl': text(true),
+  'tournament': text(true),
+  'gender': oneOf('Men', 'Women'),
+  'category': oneOf('Singles', 'Doubles'),
+  'surface': oneOf('Hard', 'Clay', 'Grass'),
+  'status': oneOf('upcoming', 'live', 'finished'),
+  'player1.name': text(true),
+  'player1.ranking': rank,
+  'player1.formScore': count,
+  'player1.odds': odds,
+  'player2.name': text(true),
+  'player2.ranking': rank,
+  'player2.formScore': count,
+  'player2.odds': odds,
+};
+
+// ─── Checks ──────────────────────────────────────────────────────────────────
+
+function isMissing(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+/** What's wrong with one value, or null */
+export function checkField(value: unknown, spec: FieldSpec): string | null {
+  if (isMissing(value)) return spec.required ? 'missing' : null;
+
+  if (spec.kind === 'text') return typeof value === 'string' ? null : 'not text';
+  if (spec.kind === 'enum') return spec.values!.includes(String(value)) ? null : `"${value}" not one of ${spec.values!.join('/')}`;
+
+  if (typeof value !== 'number' || isNaN(value)) return `"${value}" is not a number`;
+  const range = RANGES[spec.kind];
+  if (range.integer && !Number.isInteger(value)) return value + ' is not a whole number';
+  if (value < range.min) return value + ' below ' + range.min;
+  if (value > range.max) return value + ' above ' + range.max;
+  return null;
+}
+
+function checkSchema(record: object, schema: Record<string, FieldSpec>, prefix = ''): string[] {
+  const reasons: string[] = [];
+  for (const [path, spec] of Object.entries(schema)) {
+    const value = path.split('.').reduce((v: any, key) => (v == null ? undefined : v[key]), record);
+    const problem = checkField(value, spec);
+    if (problem) reasons.push(prefix + path + ': ' + problem);
+  }
+  return reasons;
+}
+
+/** Over % can only fall as the games line goes up */
+function checkLadder(ladder: H2HData['gamesLadder'], prefix: string): string[] {
+  const reasons: string[] = [];
+  const entries = Object.values(ladder || {});
+  for (const entry of entries) {
+    for (const field of ['p1OverPct', 'p2OverPct', 'combinedOverPct'] as const) {
+      const problem = checkField(entry[field], pct);
+      if (problem) reasons.push(prefix + 'gamesLadder ' + entry.scope + ':' + entry.line + ' ' + field + ': ' + problem);
+    }
+  }
+
+  for (const scope of ['match', 'set']) {
+    const lines = entries
+      .filter(e => e.scope === scope && e.combinedOverPct !== null)
+      .sort((a, b) => a.line - b.line);
+    for (let i = 1; i < lines.length; i++) {
+      if (lines[i].combinedOverPct > lines[i - 1].combinedOverPct) {
+        reasons.push(prefix + 'gamesLadder: over ' + lines[i].line + ' (' + lines[i].combinedOverPct + '%) above over ' +
+          lines[i - 1].line + ' (' + lines[i - 1].combinedOverPct + '%)');
+      }
+    }
+  }
+  return reasons;
+}
+
+/** Every rule an H2H page breaks; empty when it can be written */
+export function validateH2H(h2h: H2HData): string[] {
+  const reasons = checkSchema(h2h, H2H_SCHEMA);
+
+  // Every match won takes at least one set
+  for (const side of ['p1', 'p2'] as const) {
+    const wins = h2h[`${side}H2HWins`];
+    const sets = h2h[`${side}H2HSets`];
+    if (wins !== null && sets !== null && sets < wins) {
+      reasons.push(`${side}H2HSets: ${sets} sets for ${wins} match wins`);
+    }
+  }
+  if (h2h.h2hKey && (!h2h.h2hKey.includes('-vs-') || /\s/.test(h2h.h2hKey))) {
+    reasons.push('h2hKey: "' + h2h.h2hKey + '" is not an H2H slug');
+  }
+
+  reasons.push(...checkLadder(h2h.gamesLadder, ''));
+  for (const [period, stats] of Object.entries(h2h.periods || {})) {
+    reasons.push(...checkSchema(stats, H2H_STAT_SCHEMA, period + '.'));
+    reasons.push(...checkLadder(stats.gamesLadder, period + '.'));
+  }
+  return reasons;
+}
+
+/** Every rule a homepage match breaks; empty when it can be written */
+export function validateDailyMatch(match: DailyMatch): string[] {
+  const reasons = checkSchema(match, DAILY_MATCH_SCHEMA);
+  if (match.h2hUrl && !h2hSlug(match.h2hUrl)) reasons.push('h2hUrl: "' + match.h2hUrl + '" is not an H2H URL');
+  if (match.scheduledAt && isNaN(new Date(match.scheduledAt).getTime())) {
+    reasons.push('scheduledAt: "' + match.scheduledAt + '" is not a timestamp');
+  }
+  return reasons;
+}
+
+// ─── Quarantine ──────────────────────────────────────────────────────────────
+
+/** A row held back from the main tables, for tennis_quarantine */
+export interface QuarantineRecord {
+  kind: 'h2h' | 'daily_match';
+  key: string;              // h2h_key / match_key
+  reasons: string[];
+  payload: H2HData | DailyMatch;
+}
+
+/** Quarantine record for an H2H page that breaks a rule; null when it can be written */
+export function screenH2H(h2h: H2HData): QuarantineRecord | null {
+  const reasons = validateH2H(h2h);
+  return reasons.length > 0 ? { kind: 'h2h', key: h2h.h2hKey, reasons, payload: h2h } : null;
+}
+
+/** What upsertH2H throws after quarantining a page */
+export function quarantineError(record: QuarantineRecord): ScrapeError {
+  const more = record.reasons.length > 1 ? ' (+' + (record.reasons.length - 1) + ' more)' : '';
+  return new ScrapeError('invalid', 'quarantined — ' + record.reasons[0] + more, record.key);
+}
+
+/** One log line per quarantined row */
+export function logQuarantine(records: QuarantineRecord[]): void {
+  for (const r of records) {
+    console.warn(`[Validate] Quarantined ${r.kind} ${r.key}: ${r.reasons.join('; ')}`);
+  }
+}
+
+/** Split a day's matches into ones to write and ones to quarantine */
+export function screenMatches<T extends DailyMatch>(matches: T[], date: string): { valid: T[]; rejected: QuarantineRecord[] } {
+  const valid: T[] = [];
+  const rejected: QuarantineRecord[] = [];
+  for (const match of matches) {
+    const reasons = validateDailyMatch(match);
+    if (reasons.length === 0) valid.push(match);
+    else rejected.push({ kind: 'daily_match', key: matchKey(match.h2hUrl, date), reasons, payload: match });
+  }
+  return { valid, rejected };
+}
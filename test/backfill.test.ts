@@ -0,0 +1,120 @@
+/**
+ * Backfill bookkeeping with an in-memory scraper, storage and session:
+ * which failures leave a day to resume, and when the session is re-checked.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { runBackfill } from '../src/backfill';
+import { ScrapeError, ScrapeErrorKind } from '../src/errors';
+import { BackfillProgress } from '../src/types';
+
+const DATE = '2026-01-20';
+
+function homepageRow(slug: string) {
+  return {
+    tournament: 'Australian Open', country: 'Australia', gender: 'Men', category: 'Singles', surface: 'Hard', round: null,
+    player1: { name: 'A', ranking: 1, formScore: 50, odds: 1.5 },
+    player2: { name: 'B', ranking: 2, formScore: 50, odds: 2.5 },
+    scheduledTime: '', status: 'upcoming', h2hUrl: 'https://tennisstats.com/h2h/' + slug,
+  };
+}
+
+/** H2H outcome per slug: 'ok' or the ScrapeError kind it fails with */
+function setup(outcomes: Record<string, 'ok' | ScrapeErrorKind>, rotations: boolean[] = []) {
+  const progress = new Map<string, BackfillProgress>();
+  const calls = { h2h: [] as string[], cookies: [] as string[], rechecks: 0 };
+  let cookies = 'account-1';
+
+  const scraper = {
+    scrapeDailyMatches: async () => Object.keys(outcomes).map(homepageRow),
+    scrapeH2HWithCookies: async (url: string, cookiesJson: string) => {
+      const slug = url.split('/h2h/')[1];
+      calls.h2h.push(slug);
+      calls.cookies.push(cookiesJson);
+      const outcome = outcomes[slug];
+      if (outcome !== 'ok') throw new ScrapeError(outcome, slug + ' failed', url);
+      return { h2hKey: slug };
+    },
+  };
+  const db = {
+    upsertDailyMatches: async () => {},
+    upsertH2H: async () => {},
+    getBackfillProgress: async (date: string) => progress.get(date) || null,
+    saveBackfillProgress: async (p: BackfillProgress) => { progress.set(p.date, p); },
+  };
+  const session = {
+    generation: 0,
+    username: 'account-1',
+    get cookies() { return cookies; },
+    handleBlocked: async () => {
+      calls.rechecks++;
+      const ok = rotations.shift() ?? false;
+      if (ok) {
+        cookies = 'account-2';
+        session.generation++;
+      }
+      return ok;
+    },
+  };
+
+  const run = () => runBackfill(scraper as any, db as any, session as any, { from: DATE, to: DATE, delayMs: 0 });
+  return { run, progress, calls };
+}
+
+test('backfill: a not-found page is recorded as failed and the day completes', async () => {
+  const { run, progress, calls } = setup({ 'a-vs-b': 'ok', 'c-vs-d': 'not-found', 'e-vs-f': 'invalid' });
+
+  const summary = await run();
+  assert.equal(summary.daysCompleted, 1);
+  const day = progress.get(DATE);
+  assert.equal(day.status, 'complete');
+  assert.deepEqual(day.h2hDoneKeys, ['a-vs-b']);
+  assert.deepEqual(day.h2hFailedKeys, ['c-vs-d', 'e-vs-f']);
+  assert.equal(day.h2hTotal, 3);
+  assert.equal(day.error, '2 H2H pages unavailable');
+
+  // The next run leaves the day alone
+  calls.h2h.length = 0;
+  assert.equal((await run()).daysSkipped, 1);
+  assert.deepEqual(calls.h2h, []);
+});
+
+test('backfill: retryable failures leave the day to resume, without retrying permanent ones', async () => {
+  const outcomes: Record<string, 'ok' | ScrapeErrorKind> = { 'a-vs-b': 'layout-changed', 'c-vs-d': 'not-found' };
+  const { run, progress, calls } = setup(outcomes);
+
+  await run();
+  assert.equal(progress.get(DATE).status, 'homepage_done');
+  assert.equal(progress.get(DATE).error, '1 H2H pages missing');
+
+  outcomes['a-vs-b'] = 'ok';
+  calls.h2h.length = 0;
+  assert.equal((await run()).daysCompleted, 1);
+  assert.deepEqual(calls.h2h, ['a-vs-b']);
+});
+
+test('backfill: a run of auth failures rotates the session and carries on with the new cookies', async () => {
+  const { run, calls } = setup(
+    { 'p1-vs-p2': 'auth', 'p3-vs-p4': 'auth', 'p5-vs-p6': 'auth', 'p7-vs-p8': 'ok' },
+    [true]
+  );
+
+  const summary = await run();
+  assert.equal(calls.rechecks, 1);
+  assert.equal(summary.sessionLost, false);
+  assert.deepEqual(calls.cookies, ['account-1', 'account-1', 'account-1', 'account-2']);
+});
+
+test('backfill: stops when no working account is left', async () => {
+  const { run, calls, progress } = setup(
+    { 'p1-vs-p2': 'auth', 'p3-vs-p4': 'auth', 'p5-vs-p6': 'auth', 'p7-vs-p8': 'ok' },
+    [false]
+  );
+
+  const summary = await run();
+  assert.equal(summary.sessionLost, true);
+  assert.equal(summary.daysIncomplete, 1);
+  assert.equal(calls.h2h.length, 3);
+  assert.equal(progress.get(DATE).error, '4 H2H pages missing');
+});
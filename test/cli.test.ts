@@ -0,0 +1,77 @@
+/**
+ * Command-line parsing: commands, flag forms, defaults and every rejection.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCli, requireDateRange } from '../src/cli';
+
+test('parseCli: daily with defaults when nothing is given', () => {
+  const { command, args, options } = parseCli([]);
+  assert.equal(command, 'daily');
+  assert.deepEqual(args, []);
+  assert.equal(options.concurrency, 1);
+  assert.equal(options.delayMs, 3000);
+  assert.equal(options.settleMs, 2000);
+  assert.equal(options.h2hTtlHours, undefined);
+  assert.equal(options.dryRun, false);
+  assert.equal(options.forceH2H, false);
+});
+
+test('parseCli: command, positional args, both flag forms and booleans', () => {
+  const { command, args, options } = parseCli([
+    'h2h', 'jannik-sinner-vs-carlos-alcaraz', '--surface=clay', '--concurrency', '3', '--dry-run', '--h2h-ttl=0',
+    '--tiers', 'Grand Slam, Masters 1000,', '--gender', 'WOMEN', '--storage', 'SQLite', '--timezone', 'Europe/Paris',
+  ]);
+  assert.equal(command, 'h2h');
+  assert.deepEqual(args, ['jannik-sinner-vs-carlos-alcaraz']);
+  assert.equal(options.surface, 'Clay');
+  assert.equal(options.gender, 'Women');
+  assert.equal(options.concurrency, 3);
+  assert.equal(options.dryRun, true);
+  assert.equal(options.h2hTtlHours, 0);
+  assert.deepEqual(options.tiers, ['Grand Slam', 'Masters 1000']);
+  assert.equal(options.storage, 'sqlite');
+  assert.equal(options.timeZone, 'Europe/Paris');
+});
+
+test('parseCli: --help wins over the command, zero concurrency and delay are raised to 1', () => {
+  assert.equal(parseCli(['backfill', '--help']).command, 'help');
+  const { options } = parseCli(['--concurrency', '0', '--delay=0']);
+  assert.equal(options.concurrency, 1);
+  assert.equal(options.delayMs, 1);
+});
+
+test('parseCli: unknown commands and flags, missing values', () => {
+  assert.throws(() => parseCli(['scrape']), /Unknown command "scrape"/);
+  assert.throws(() => parseCli(['--verbose']), /Unknown flag --verbose/);
+  assert.throws(() => parseCli(['--date']), /--date needs a value/);
+  assert.throws(() => parseCli(['--date', '--dry-run']), /--date needs a value/);
+});
+
+test('parseCli: out-of-range enum, number, timezone and storage values', () => {
+  assert.throws(() => parseCli(['--gender', 'mixed']), /--gender must be Men or Women/);
+  assert.throws(() => parseCli(['--category', 'teams']), /--category must be Singles or Doubles/);
+  assert.throws(() => parseCli(['--surface', 'carpet']), /--surface must be Hard, Clay or Grass/);
+  assert.throws(() => parseCli(['--concurrency', '2x']), /--concurrency must be a number, got "2x"/);
+  assert.throws(() => parseCli(['--delay', '-5']), /--delay must be a number/);
+  assert.throws(() => parseCli(['--timezone', 'Mars/Olympus']), /--timezone must be an IANA zone/);
+  assert.throws(() => parseCli(['--storage', 'postgres']), /--storage must be supabase, sqlite, jsonl/);
+});
+
+test('parseCli: dates must be real calendar dates', () => {
+  assert.equal(parseCli(['--date', '2028-02-29']).options.date, '2028-02-29');
+  assert.throws(() => parseCli(['--date', '2026-13-45']), /--date must be a real YYYY-MM-DD date, got "2026-13-45"/);
+  assert.throws(() => parseCli(['--date', '2026-02-29']), /--date must be a real YYYY-MM-DD date/);
+  assert.throws(() => parseCli(['--date', '20260120']), /--date must be a real YYYY-MM-DD date/);
+  assert.throws(() => parseCli(['backfill', '--from', '2026-04-31']), /--from must be a real YYYY-MM-DD date/);
+});
+
+test('parseCli / requireDateRange: --from must not be after --to', () => {
+  const { options } = parseCli(['backfill', '--from', '2026-01-01', '--to', '2026-01-31']);
+  assert.equal(options.from, '2026-01-01');
+  assert.equal(options.to, '2026-01-31');
+  assert.deepEqual(requireDateRange('2026-01-05', '2026-01-05'), { from: '2026-01-05', to: '2026-01-05' });
+  assert.throws(() => parseCli(['backfill', '--from', '2026-02-01', '--to', '2026-01-31']), /--from 2026-02-01 is after --to 2026-01-31/);
+  assert.throws(() => requireDateRange('2026-01-10', '2026-01-09'), /is after --to/);
+});
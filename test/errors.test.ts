@@ -0,0 +1,98 @@
+/**
+ * Error taxonomy: classifying thrown errors, retrying by kind, and the run tally.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyError, ErrorTally, RETRY_POLICIES, ScrapeError, ScrapeErrorKind, withRetry } from '../src/errors';
+
+/** Run with short backoffs so retries don't sleep for real */
+async function withFastBackoff<T>(fn: () => Promise<T>): Promise<T> {
+  const saved = Object.fromEntries(Object.entries(RETRY_POLICIES).map(([k, p]) => [k, p.backoffMs]));
+  for (const policy of Object.values(RETRY_POLICIES)) policy.backoffMs = Math.min(policy.backoffMs, 1);
+  try {
+    return await fn();
+  } finally {
+    for (const [k, ms] of Object.entries(saved)) RETRY_POLICIES[k as ScrapeErrorKind].backoffMs = ms;
+  }
+}
+
+/** A function failing with each error in turn, then returning 'ok' */
+function failing(...errors: unknown[]) {
+  let calls = 0;
+  const fn = async () => {
+    if (calls < errors.length) throw errors[calls++];
+    calls++;
+    return 'ok';
+  };
+  return { fn, calls: () => calls };
+}
+
+test('classifyError: ScrapeErrors pass through unchanged', () => {
+  const err = new ScrapeError('auth', 'premium sections missing', 'https://tennisstats.com/h2h/a-vs-b');
+  assert.equal(classifyError(err, 'https://other'), err);
+});
+
+test('classifyError: navigation and browser failures are timeouts', () => {
+  const timeout = new Error('Navigation timeout of 30000 ms exceeded');
+  timeout.name = 'TimeoutError';
+  for (const raw of [timeout, new Error('net::ERR_CONNECTION_RESET'), new Error('Protocol error: Target closed'),
+    new Error('Execution context was destroyed, frame detached'), 'request timed out']) {
+    const err = classifyError(raw, 'https://tennisstats.com/h2h/a-vs-b');
+    assert.equal(err.kind, 'timeout', String(raw));
+    assert.equal(err.url, 'https://tennisstats.com/h2h/a-vs-b');
+  }
+});
+
+test('classifyError: anything else is a layout change', () => {
+  const err = classifyError(new TypeError("Cannot read properties of null (reading 'textContent')"));
+  assert.equal(err.kind, 'layout-changed');
+  assert.match(err.message, /textContent/);
+  assert.equal(err.url, undefined);
+});
+
+test('withRetry: no retries for kinds whose policy has none', async () => {
+  for (const kind of ['auth', 'not-found', 'layout-changed', 'invalid'] as ScrapeErrorKind[]) {
+    const { fn, calls } = failing(new ScrapeError(kind, kind));
+    await assert.rejects(withRetry(fn), (e: ScrapeError) => e.kind === kind);
+    assert.equal(calls(), 1, kind);
+  }
+});
+
+test('withRetry: retries with doubling backoff, then succeeds', async () => {
+  const waits: number[] = [];
+  const { fn, calls } = failing(new Error('net::ERR_TIMED_OUT'), new Error('net::ERR_TIMED_OUT'));
+  const result = await withFastBackoff(() => withRetry(fn, (err, attempt, waitMs) => waits.push(attempt, waitMs)));
+  assert.equal(result, 'ok');
+  assert.equal(calls(), 3);
+  assert.deepEqual(waits, [1, 1, 2, 2]);
+});
+
+test('withRetry: gives up after the policy retries and rethrows the last error classified', async () => {
+  const retries: string[] = [];
+  const { fn, calls } = failing(new ScrapeError('blocked', 'challenge'), new ScrapeError('blocked', 'challenge again'), 'never reached');
+  await withFastBackoff(() =>
+    assert.rejects(withRetry(fn, err => retries.push(err.message)), (e: ScrapeError) => e.kind === 'blocked' && e.message === 'challenge again'));
+  assert.equal(calls(), RETRY_POLICIES.blocked.retries + 1);
+  assert.deepEqual(retries, ['challenge']);
+});
+
+test('withRetry: a retry can fail with a different kind, which then sets the policy', async () => {
+  const { fn, calls } = failing(new Error('socket timeout'), new ScrapeError('not-found', '404'));
+  await withFastBackoff(() => assert.rejects(withRetry(fn), (e: ScrapeError) => e.kind === 'not-found'));
+  assert.equal(calls(), 2);
+});
+
+test('ErrorTally: counts, order and the first five samples per kind', () => {
+  const tally = new ErrorTally();
+  assert.equal(tally.format(), 'none');
+  for (let i = 0; i < 6; i++) tally.add(new ScrapeError('timeout', 'slow ' + i, 'https://tennisstats.com/h2h/p' + i));
+  tally.add(new ScrapeError('auth', 'logged out'));
+
+  assert.equal(tally.total, 7);
+  assert.deepEqual(tally.kinds(), ['timeout', 'auth']);
+  assert.equal(tally.format(), 'timeout 6, auth 1');
+  assert.equal(tally.samples.timeout.length, 5);
+  assert.equal(tally.samples.timeout[0], 'https://tennisstats.com/h2h/p0 — slow 0');
+  assert.deepEqual(tally.samples.auth, ['logged out']);
+});
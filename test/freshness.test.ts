@@ -0,0 +1,57 @@
+/**
+ * H2H freshness policy: which pages are scraped again and why.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyFreshness, H2HCacheState } from '../src/freshness';
+import { DailyMatch } from '../src/types';
+
+const NOW = new Date('2026-01-20T12:00:00Z');
+
+const row = (h2hUrl: string) => ({ h2hUrl } as DailyMatch);
+const A = row('https://tennisstats.com/h2h/jannik-sinner-vs-carlos-alcaraz');
+const B = row('https://tennisstats.com/h2h/iga-swiatek-vs-coco-gauff');
+
+function cache(updatedAt: Record<string, string>, lastFinished: Record<string, string> = {}): H2HCacheState {
+  return { updatedAt: new Map(Object.entries(updatedAt)), lastFinished: new Map(Object.entries(lastFinished)) };
+}
+
+const reasons = (decisions: ReturnType<typeof applyFreshness>) => decisions.map(d => [d.key, d.scrape, d.reason]);
+
+test('applyFreshness: recent pages are skipped, never-scraped ones fetched', () => {
+  const decisions = applyFreshness([A, B], cache({ 'jannik-sinner-vs-carlos-alcaraz': '2026-01-20T06:00:00Z' }),
+    { ttlHours: 12, force: false }, NOW);
+  assert.deepEqual(reasons(decisions), [
+    ['jannik-sinner-vs-carlos-alcaraz', false, 'fresh'],
+    ['iga-swiatek-vs-coco-gauff', true, 'never scraped'],
+  ]);
+  assert.equal(decisions[0].match, A);
+});
+
+test('applyFreshness: expiry at the TTL boundary, unreadable timestamps and a zero TTL', () => {
+  const state = cache({ 'jannik-sinner-vs-carlos-alcaraz': '2026-01-20T00:00:00Z', 'iga-swiatek-vs-coco-gauff': 'garbage' });
+  assert.deepEqual(reasons(applyFreshness([A, B], state, { ttlHours: 12, force: false }, NOW)), [
+    ['jannik-sinner-vs-carlos-alcaraz', true, 'expired'],
+    ['iga-swiatek-vs-coco-gauff', true, 'expired'],
+  ]);
+  assert.equal(applyFreshness([A], state, { ttlHours: 13, force: false }, NOW)[0].reason, 'fresh');
+  assert.equal(applyFreshness([A], state, { ttlHours: 0, force: false }, NOW)[0].reason, 'expired');
+});
+
+test('applyFreshness: a result on or after the scrape day makes the page stale', () => {
+  const updatedAt = { 'jannik-sinner-vs-carlos-alcaraz': '2026-01-20T06:00:00Z', 'iga-swiatek-vs-coco-gauff': '2026-01-20T06:00:00Z' };
+  const lastFinished = { 'jannik-sinner-vs-carlos-alcaraz': '2026-01-20', 'iga-swiatek-vs-coco-gauff': '2026-01-19' };
+  assert.deepEqual(reasons(applyFreshness([A, B], cache(updatedAt, lastFinished), { ttlHours: 24, force: false }, NOW)), [
+    ['jannik-sinner-vs-carlos-alcaraz', true, 'played since'],
+    ['iga-swiatek-vs-coco-gauff', false, 'fresh'],
+  ]);
+});
+
+test('applyFreshness: force scrapes everything, rows without an H2H URL are always scraped', () => {
+  const state = cache({ 'jannik-sinner-vs-carlos-alcaraz': '2026-01-20T11:00:00Z' });
+  assert.deepEqual(reasons(applyFreshness([A], state, { ttlHours: 24, force: true }, NOW)), [
+    ['jannik-sinner-vs-carlos-alcaraz', true, 'forced'],
+  ]);
+  assert.deepEqual(reasons(applyFreshness([row('')], state, { ttlHours: 24, force: false }, NOW)), [['', true, 'never scraped']]);
+});
@@ -0,0 +1,265 @@
+/**
+ * Parser tests against saved pages in test/fixtures — no browser, no network.
+ *
+ * The fixtures are trimmed copies of the site's markup: just enough of the
+ * homepage and H2H page structure for every row shape the parsers handle.
+ * When the site changes, save the new markup here and fix the parser until
+ * these pass again.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { hasPremiumStats, listPeriods, listPeriodTabs, parseDailyMatches, parseH2HPage } from '../src/parsers';
+import { resolveScheduledTimes } from '../src/schedule';
+import { DailyMatch } from '../src/types';
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+}
+
+// ─── Homepage ────────────────────────────────────────────────────────────────
+
+const matches = parseDailyMatches(fixture('homepage.html'));
+const byUrl = (slug: string): DailyMatch => {
+  const match = matches.find(m => m.h2hUrl === 'https://tennisstats.com/h2h/' + slug);
+  assert.ok(match, 'no row for ' + slug);
+  return match;
+};
+
+test('homepage: every match row is read and promo links are skipped', () => {
+  assert.equal(matches.length, 6);
+});
+
+test('homepage: finished row has score, set scores and winner', () => {
+  const m = byUrl('jannik-sinner-vs-carlos-alcaraz');
+  assert.equal(m.status, 'finished');
+  assert.deepEqual(m.player1, { name: 'Jannik Sinner', ranking: 1, formScore: 72, odds: 1.85 });
+  assert.deepEqual(m.player2, { name: 'Carlos Alcaraz', ranking: 2, formScore: 75, odds: 1.95 });
+  assert.equal(m.score, '6-3 4-6 7-5');
+  assert.deepEqual(m.setScores, [[6, 3], [4, 6], [7, 5]]);
+  assert.equal(m.winner, 'Jannik Sinner');
+  assert.equal(m.live, undefined);
+});
+
+test('homepage: live row has server, set scores and current game', () => {
+  const m = byUrl('alexander-zverev-vs-casper-ruud');
+  assert.equal(m.status, 'live');
+  assert.equal(m.player2.name, 'Casper Ruud');
+  assert.deepEqual(m.live, {
+    server: 'player1',
+    currentSet: 2,
+    setScores: [[6, 4], [3, 5]],
+    gameScore: ['40', '15'],
+  });
+  assert.equal(m.score, undefined);
+});
+
+test('homepage: upcoming rows keep their start time and schedule kind', () => {
+  const fixed = byUrl('aryna-sabalenka-vs-elena-rybakina');
+  assert.equal(fixed.status, 'upcoming');
+  assert.equal(fixed.scheduledTime, '3:30 pm');
+  assert.equal(fixed.scheduleKind, 'fixed');
+
+  const following = byUrl('jasmine-paolini-vs-mirra-andreeva');
+  assert.equal(following.scheduleKind, 'after_previous');
+  assert.equal(following.player2.name, 'Mirra Andreeva');
+});
+
+test('homepage: row without odds keeps null odds and a not-before time', () => {
+  const m = byUrl('tommy-paul-vs-ben-shelton');
+  assert.equal(m.player1.odds, null);
+  assert.equal(m.player2.odds, null);
+  assert.equal(m.player2.ranking, 9);
+  assert.equal(m.scheduleKind, 'not_before');
+  assert.equal(m.tournament, 'Lyon');
+  assert.equal(m.round, 'R16');
+});
+
+test('homepage: doubles row gets teams with individual and combined rankings', () => {
+  const m = byUrl('m-granollers-h-zeballos-vs-r-ram-j-salisbury');
+  assert.equal(m.category, 'Doubles');
+  assert.equal(m.player1.name, 'M. Granollers / H. Zeballos');
+  assert.deepEqual(m.team1, {
+    players: [{ name: 'M. Granollers', ranking: 5 }, { name: 'H. Zeballos', ranking: 6 }],
+    ranking: 11,
+    odds: 1.75,
+  });
+  assert.deepEqual(m.team2, {
+    players: [{ name: 'R. Ram', ranking: 20 }, { name: 'J. Salisbury', ranking: 22 }],
+    ranking: 42,
+    odds: 2.05,
+  });
+});
+
+test('homepage: tournament headings give gender, surface, round and court', () => {
+  const men = byUrl('jannik-sinner-vs-carlos-alcaraz');
+  assert.equal(men.tournament, 'Roland Garros');
+  assert.equal(men.country, 'France');
+  assert.equal(men.gender, 'Men');
+  assert.equal(men.category, 'Singles');
+  assert.equal(men.surface, 'Clay');
+  assert.equal(men.round, 'QF');
+  assert.equal(men.court, 'Court Philippe-Chatrier');
+
+  const women = byUrl('aryna-sabalenka-vs-elena-rybakina');
+  assert.equal(women.gender, 'Women');
+  assert.equal(women.round, 'SF');
+  assert.equal(women.court, 'Court Suzanne-Lenglen');
+});
+
+test('homepage: start times resolve to UTC per court', () => {
+  const resolved = resolveScheduledTimes(matches, '2026-06-03', 'Europe/Paris');
+  const at = (slug: string) => resolved.find(m => m.h2hUrl.endsWith('/' + slug));
+
+  assert.equal(at('aryna-sabalenka-vs-elena-rybakina').scheduledAt, '2026-06-03T13:30:00.000Z');
+  assert.equal(at('jasmine-paolini-vs-mirra-andreeva').scheduledAt, '2026-06-03T13:30:00.000Z');
+  assert.equal(at('jasmine-paolini-vs-mirra-andreeva').courtOrder, 2);
+  assert.equal(at('tommy-paul-vs-ben-shelton').scheduledAt, '2026-06-03T15:00:00.000Z');
+  assert.equal(at('jannik-sinner-vs-carlos-alcaraz').scheduledAt, null);
+});
+
+// ─── H2H Page ────────────────────────────────────────────────────────────────
+
+const SINGLES_URL = 'https://tennisstats.com/h2h/jannik-sinner-vs-carlos-alcaraz';
+const singles = parseH2HPage(fixture('h2h-singles.html'), SINGLES_URL);
+
+test('h2h: header and Full Stats', () => {
+  assert.ok(singles);
+  assert.equal(singles.h2hKey, 'jannik-sinner-vs-carlos-alcaraz');
+  assert.equal(singles.player1, 'Jannik Sinner');
+  assert.equal(singles.player2, 'Carlos Alcaraz');
+  assert.equal(singles.category, 'Singles');
+  assert.equal(singles.p1Rank, 1);
+  assert.equal(singles.p2H2HWins, 8);
+  assert.equal(singles.p1H2HSets, 18);
+  assert.equal(singles.p1CalendarYearWinPct, 88);
+  assert.equal(singles.p2Last12mWinPct, 86.6);
+  assert.equal(singles.p2Last12mRecord, '58-9(86.6%)');
+});
+
+test('h2h: Full Stats records under their alternate labels', () => {
+  const html = fixture('h2h-singles.html')
+    .replace('<div>Win Percentage</div><div><span>44-6</span>', '<div>2026 Calendar Year</div><div><span>44-6</span>')
+    .replace('<div>Last 12 Months</div><div><span>61-7</span>', '<div>12 Month Record</div><div><span>61-7</span>');
+  assert.notEqual(html, fixture('h2h-singles.html'));
+
+  const relabelled = parseH2HPage(html, SINGLES_URL);
+  assert.equal(relabelled.p1CalendarYearWinPct, 88);
+  assert.equal(relabelled.p2CalendarYearRecord, '40-8(83.3%)');
+  assert.equal(relabelled.p1Last12mWinPct, 89.7);
+});
+
+test('h2h: win percentages come from the active tab, real zeros stay zero', () => {
+  assert.equal(singles.p1MatchWinsPct, 89.7);
+  assert.equal(singles.p2StraightSetsPct, 55.2);
+  assert.equal(singles.p1WinsFromBehindPct, 13.2);
+  assert.equal(singles.p1Set1WinPct, 82);
+  assert.equal(singles.p2Set3WinPct, 0);
+});
+
+test('h2h: serve, break and tie-break sections', () => {
+  assert.equal(singles.p1AcesPerMatch, 7.2);
+  assert.equal(singles.acesMatchTotal, 12.3);
+  assert.equal(singles.p2DoubleFaultsPerMatch, 2.9);
+  assert.equal(singles.breaksMatchTotal, 6.5);
+  assert.equal(singles.p1TiebreaksPerMatch, 0);
+  assert.equal(singles.avgGamesPerSet, 9.9);
+});
+
+test('h2h: games ladder converts under rows and keeps set lines apart', () => {
+  assert.equal(singles.gamesOver20_5Pct, 83);
+  assert.equal(singles.gamesOver22_5Pct, 68);
+  assert.equal(singles.gamesOver23_5Pct, 58);
+  assert.deepEqual(singles.gamesLadder['match:23.5'], {
+    scope: 'match', line: 23.5, p1OverPct: 55, p2OverPct: 60, combinedOverPct: 58,
+  });
+  assert.equal(singles.gamesLadder['set:9.5'].combinedOverPct, 58);
+});
+
+test('h2h: match history skips rows without a result', () => {
+  assert.deepEqual(singles.matchHistory, [
+    { date: '07 Jul 2025', tournament: 'Wimbledon', surface: 'Grass', winner: 'Jannik Sinner', score: '3-1' },
+    { date: '08 Jun 2025', tournament: 'Roland Garros', surface: 'Clay', winner: 'Carlos Alcaraz', score: '2-3' },
+  ]);
+});
+
+test('h2h: each period tab is parsed from the panel its tab names', () => {
+  // The widget header also holds a [data-toggle] tooltip before the tabs
+  assert.deepEqual(listPeriods(fixture('h2h-singles.html')).sort(), ['calendar_year', 'last_12m']);
+
+  const { last_12m, calendar_year } = singles.periods;
+  assert.equal(last_12m.p1MatchWinsPct, 89.7);
+  assert.equal(last_12m.p2StraightSetsPct, 55.2);
+  assert.equal(last_12m.p2Set3WinPct, 0);
+  assert.equal(calendar_year.p1MatchWinsPct, 88);
+  assert.equal(calendar_year.p2StraightSetsPct, 52.1);
+  assert.equal(calendar_year.p2Set3WinPct, null);
+});
+
+test('h2h: tabs are matched by aria-controls / href, not by position', () => {
+  const row = (pct: string) =>
+    '<div class="data-table"><div class="data-table-row"><div>Match Wins</div>' +
+    '<div><span>1</span>(' + pct + '%)</div><div><span>1</span>(50.0%)</div></div></div>';
+  const html = '<div class="widget-box-shadow"><div class="widget-header"><h2>Win Percentage</h2>' +
+    '<a href="#career" aria-controls="wp-career">Career</a>' +
+    '<a href="/h2h/a-vs-b#wp-cy">Calendar Year</a>' +
+    '<a href="#wp-l12m">Last 12 Months</a></div>' +
+    '<div class="ui-toggle-target active" id="wp-l12m">' + row('70.0') + '</div>' +
+    '<div class="ui-toggle-target" id="wp-unlabelled">' + row('10.0') + '</div>' +
+    '<div class="ui-toggle-target" id="wp-cy">' + row('60.0') + '</div>' +
+    '<div class="ui-toggle-target" id="wp-career">' + row('80.0') + '</div></div>';
+
+  const data = parseH2HPage('<h1>A vs B</h1>' + html, 'https://tennisstats.com/h2h/a-vs-b');
+  assert.deepEqual(Object.keys(data.periods).sort(), ['calendar_year', 'career', 'last_12m']);
+  assert.equal(data.periods.last_12m.p1MatchWinsPct, 70);
+  assert.equal(data.periods.calendar_year.p1MatchWinsPct, 60);
+  assert.equal(data.periods.career.p1MatchWinsPct, 80);
+});
+
+test('h2h: period tabs report whether the HTML holds their panel rows', () => {
+  assert.deepEqual(listPeriodTabs(fixture('h2h-singles.html')), [
+    { period: 'last_12m', label: 'Last 12 Months', active: true, loaded: true },
+    { period: 'calendar_year', label: '2026 Calendar Year', active: false, loaded: true },
+  ]);
+
+  // Career has an empty panel, Clay none at all; the tooltip and the second widget's
+  // loaded Clay panel don't count — Clay is still missing from the first widget
+  const tabs = '<span class="ui-toggle-link active" data-target="#{w}-l12m">Last 12 Months</span>' +
+    '<span class="ui-toggle-link" data-target="#{w}-career">Career</span>' +
+    '<span class="ui-toggle-link" data-target="#{w}-clay">Clay</span>' +
+    '<span data-toggle="tooltip" data-target="#{w}-help">?</span>';
+  const row = '<div class="data-table"><div class="data-table-row"><div>Match Wins</div><div>1</div><div>1</div></div></div>';
+  const html = '<div class="widget-box-shadow"><h2>Win Percentage</h2>' + tabs.replace(/\{w\}/g, 'wp') +
+    '<div class="ui-toggle-target active" id="wp-l12m">' + row + '</div>' +
+    '<div class="ui-toggle-target" id="wp-career"></div></div>' +
+    '<div class="widget-box-shadow"><h2>Aces</h2>' + tabs.replace(/\{w\}/g, 'ac') +
+    '<div class="ui-toggle-target active" id="ac-l12m">' + row + '</div>' +
+    '<div class="ui-toggle-target" id="ac-clay">' + row + '</div></div>';
+
+  assert.deepEqual(listPeriodTabs(html), [
+    { period: 'last_12m', label: 'Last 12 Months', active: true, loaded: true },
+    { period: 'career', label: 'Career', active: false, loaded: false },
+    { period: 'clay', label: 'Clay', active: false, loaded: false },
+  ]);
+});
+
+test('h2h: premium page is recognised by its widgets', () => {
+  assert.equal(hasPremiumStats(fixture('h2h-singles.html')), true);
+});
+
+test('h2h: logged-out doubles page parses without premium sections', () => {
+  const html = fixture('h2h-doubles-logged-out.html');
+  const doubles = parseH2HPage(html, 'https://tennisstats.com/h2h/m-granollers-h-zeballos-vs-r-ram-j-salisbury');
+  assert.ok(doubles);
+  assert.equal(doubles.category, 'Doubles');
+  assert.equal(doubles.player1, 'M. Granollers / H. Zeballos');
+  assert.equal(doubles.player2, 'R. Ram / J. Salisbury');
+  assert.equal(doubles.p2Rank, 20);
+  assert.equal(doubles.p2H2HWins, 0);
+  assert.equal(doubles.p1MatchWinsPct, null);
+  assert.deepEqual(doubles.periods, {});
+  assert.equal(doubles.matchHistory[0].surface, 'Hard');
+  assert.equal(hasPremiumStats(html), false);
+});
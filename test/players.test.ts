@@ -0,0 +1,66 @@
+/**
+ * Player registry: resolving scraped names to the slugs of their H2H URL, and
+ * which names end up stored as aliases.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { nameMatchScore, normaliseName, PlayerRegistry, playerSlugs } from '../src/players';
+
+const URL = 'https://tennisstats.com/h2h/jannik-sinner-vs-carlos-alcaraz';
+
+test('normaliseName / playerSlugs', () => {
+  assert.equal(normaliseName('Félix Auger-Aliassime'), 'felix auger aliassime');
+  assert.deepEqual(playerSlugs(URL), ['jannik-sinner', 'carlos-alcaraz']);
+  assert.deepEqual(playerSlugs('jannik-sinner-vs-carlos-alcaraz'), ['jannik-sinner', 'carlos-alcaraz']);
+  assert.equal(playerSlugs('https://tennisstats.com/h2h/'), null);
+});
+
+test('nameMatchScore: full words and initials, in any order', () => {
+  assert.equal(nameMatchScore('Jannik Sinner', 'jannik-sinner'), 2);
+  assert.equal(nameMatchScore('Sinner J.', 'jannik-sinner'), 1);
+  assert.equal(nameMatchScore('C. Alcaraz', 'jannik-sinner'), 0);
+});
+
+test('resolvePair: both names match, even in reverse URL order', () => {
+  const registry = new PlayerRegistry();
+  assert.deepEqual(registry.resolvePair(URL, 'Carlos Alcaraz', 'Jannik Sinner', 'Men'), ['carlos-alcaraz', 'jannik-sinner']);
+  assert.equal(registry.get('carlos-alcaraz').name, 'Carlos Alcaraz');
+  assert.equal(registry.get('carlos-alcaraz').gender, 'Men');
+});
+
+test('resolvePair: abbreviated names resolve and are kept as aliases, not display names', () => {
+  const registry = new PlayerRegistry();
+  assert.deepEqual(registry.resolvePair(URL, 'Sinner J.', 'C. Alcaraz'), ['jannik-sinner', 'carlos-alcaraz']);
+  assert.equal(registry.get('jannik-sinner').name, 'Jannik Sinner');
+  assert.deepEqual(registry.get('jannik-sinner').aliases, ['Sinner J.']);
+  assert.equal(registry.resolve('sinner j', ['jannik-sinner', 'carlos-alcaraz']), 'jannik-sinner');
+});
+
+test('resolvePair: one name matched, the other gets the remaining slug and becomes its alias', () => {
+  const registry = new PlayerRegistry();
+  // "Charly" isn't a word of the slug, so only Sinner resolves by name
+  assert.deepEqual(registry.resolvePair(URL, 'Charly Alcaraz-Garfia', 'Jannik Sinner'), ['carlos-alcaraz', 'jannik-sinner']);
+  assert.deepEqual(registry.get('carlos-alcaraz').aliases, []);
+  assert.equal(registry.get('carlos-alcaraz').name, 'Charly Alcaraz-Garfia');
+  assert.equal(registry.resolve('Charly Alcaraz-Garfia', ['jannik-sinner', 'carlos-alcaraz']), 'carlos-alcaraz');
+});
+
+test('resolvePair: neither name matched returns null and registers nothing', () => {
+  const registry = new PlayerRegistry();
+  assert.equal(registry.resolvePair(URL, 'Player One', 'Player Two'), null);
+  assert.equal(registry.size, 0);
+  assert.deepEqual(registry.takeChanged(), []);
+
+  // A later page with real names still resolves cleanly, in either order
+  assert.deepEqual(registry.resolvePair(URL, 'Carlos Alcaraz', 'Jannik Sinner'), ['carlos-alcaraz', 'jannik-sinner']);
+  assert.equal(registry.resolve('Player One', ['jannik-sinner', 'carlos-alcaraz']), null);
+});
+
+test('resolvePair: known aliases from the stored registry win', () => {
+  const registry = new PlayerRegistry([
+    { id: 'carlos-alcaraz', name: 'Carlos Alcaraz', aliases: ['Carlitos'], gender: 'Men', nationality: null },
+  ]);
+  assert.deepEqual(registry.resolvePair(URL, 'Carlitos', 'J. Sinner'), ['carlos-alcaraz', 'jannik-sinner']);
+  assert.deepEqual(registry.takeChanged().map(p => p.id), ['jannik-sinner']);
+});
@@ -0,0 +1,62 @@
+/**
+ * Adaptive rate limiter: rate changes on success and failure, request pacing,
+ * call order, and the pause after a run of failures. Timings use fast rates and
+ * loose bounds so the tests stay quick on a slow machine.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AdaptiveRateLimiter } from '../src/ratelimit';
+
+test('AdaptiveRateLimiter: additive increase up to the maximum', () => {
+  const limiter = new AdaptiveRateLimiter({ ratePerSec: 1, minRatePerSec: 0.25, maxRatePerSec: 1.25 });
+  limiter.reportSuccess();
+  assert.equal(limiter.currentRate, 1.1);
+  limiter.reportSuccess();
+  limiter.reportSuccess();
+  limiter.reportSuccess();
+  assert.equal(limiter.currentRate, 1.25);
+});
+
+test('AdaptiveRateLimiter: multiplicative decrease down to the minimum', () => {
+  const limiter = new AdaptiveRateLimiter({ ratePerSec: 2, minRatePerSec: 0.5, maxRatePerSec: 4, cooldownAfter: 10 });
+  limiter.reportFailure();
+  assert.equal(limiter.currentRate, 1);
+  limiter.reportFailure();
+  limiter.reportFailure();
+  assert.equal(limiter.currentRate, 0.5);
+});
+
+test('AdaptiveRateLimiter: requests are spaced by the rate and served in call order', async () => {
+  const limiter = new AdaptiveRateLimiter({ ratePerSec: 50, minRatePerSec: 1, maxRatePerSec: 50 });
+  const order: number[] = [];
+  const start = Date.now();
+  await Promise.all([0, 1, 2, 3, 4].map(i => limiter.acquire().then(() => order.push(i))));
+  const elapsed = Date.now() - start;
+
+  // The first token is there at once, the other four take 20ms each
+  assert.deepEqual(order, [0, 1, 2, 3, 4]);
+  assert.ok(elapsed >= 70, 'elapsed ' + elapsed + 'ms');
+  assert.ok(elapsed < 1000, 'elapsed ' + elapsed + 'ms');
+});
+
+test('AdaptiveRateLimiter: a run of failures pauses everyone for the cooldown', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const limiter = new AdaptiveRateLimiter({
+    ratePerSec: 1000, minRatePerSec: 1000, maxRatePerSec: 1000, cooldownAfter: 2, cooldownMs: 150,
+  });
+  await limiter.acquire();
+
+  limiter.reportFailure();
+  limiter.reportSuccess();    // a clean response resets the run
+  limiter.reportFailure();
+  let start = Date.now();
+  await limiter.acquire();
+  assert.ok(Date.now() - start < 100, 'paused after one failure');
+
+  limiter.reportFailure();
+  limiter.reportFailure();
+  start = Date.now();
+  await limiter.acquire();
+  assert.ok(Date.now() - start >= 140, 'waited ' + (Date.now() - start) + 'ms');
+});
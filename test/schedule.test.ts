@@ -0,0 +1,81 @@
+/**
+ * Site timezone arithmetic: the page date around midnight, wall-clock start
+ * times across DST changes, and the order-of-play fallbacks.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  isValidTimeZone,
+  parseClockTime,
+  resolveScheduledTimes,
+  siteTimeZoneFromCookies,
+  todayInZone,
+  tzOffsetMs,
+  zonedToUtc,
+} from '../src/schedule';
+import { DailyMatch } from '../src/types';
+
+test('todayInZone: the site date differs from the UTC date around midnight', () => {
+  // 23:30 UTC on 19 Jan is already 20 Jan in Melbourne, still 19 Jan in London and New York
+  const lateUtc = new Date('2026-01-19T23:30:00Z');
+  assert.equal(todayInZone('Australia/Melbourne', lateUtc), '2026-01-20');
+  assert.equal(todayInZone('Europe/London', lateUtc), '2026-01-19');
+  assert.equal(todayInZone('America/New_York', lateUtc), '2026-01-19');
+
+  // 00:30 in London during BST is still 23:30 the previous day in UTC
+  assert.equal(todayInZone('Europe/London', new Date('2026-06-30T23:30:00Z')), '2026-07-01');
+  assert.equal(todayInZone('UTC', new Date('2026-06-30T23:30:00Z')), '2026-06-30');
+});
+
+test('tzOffsetMs: standard and summer time', () => {
+  assert.equal(tzOffsetMs(new Date('2026-01-15T12:00:00Z'), 'Europe/London'), 0);
+  assert.equal(tzOffsetMs(new Date('2026-07-15T12:00:00Z'), 'Europe/London'), 3600000);
+  assert.equal(tzOffsetMs(new Date('2026-01-15T12:00:00Z'), 'Australia/Melbourne'), 11 * 3600000);
+  assert.equal(tzOffsetMs(new Date('2026-07-15T12:00:00Z'), 'America/New_York'), -4 * 3600000);
+});
+
+test('zonedToUtc: wall-clock times on both sides of a DST change', () => {
+  // Europe/London moves to BST at 01:00 UTC on 29 Mar 2026
+  assert.equal(zonedToUtc('2026-03-28', 15, 30, 'Europe/London').toISOString(), '2026-03-28T15:30:00.000Z');
+  assert.equal(zonedToUtc('2026-03-29', 15, 30, 'Europe/London').toISOString(), '2026-03-29T14:30:00.000Z');
+  // ...and back on 25 Oct
+  assert.equal(zonedToUtc('2026-10-25', 11, 0, 'Europe/London').toISOString(), '2026-10-25T11:00:00.000Z');
+  // An early session in Melbourne falls on the previous UTC day
+  assert.equal(zonedToUtc('2026-01-20', 10, 0, 'Australia/Melbourne').toISOString(), '2026-01-19T23:00:00.000Z');
+});
+
+test('parseClockTime: 12- and 24-hour forms', () => {
+  assert.deepEqual(parseClockTime('3:30 pm'), { hour: 15, minute: 30 });
+  assert.deepEqual(parseClockTime('NB 15:00'), { hour: 15, minute: 0 });
+  assert.deepEqual(parseClockTime('12:15 am'), { hour: 0, minute: 15 });
+  assert.deepEqual(parseClockTime('12:15 PM'), { hour: 12, minute: 15 });
+  assert.equal(parseClockTime('After previous match'), null);
+  assert.equal(parseClockTime('25:00'), null);
+});
+
+test('siteTimeZoneFromCookies: a valid zone cookie wins, anything else is ignored', () => {
+  assert.equal(siteTimeZoneFromCookies(JSON.stringify([{ name: 'TZ', value: 'America%2FNew_York' }])), 'America/New_York');
+  assert.equal(siteTimeZoneFromCookies(JSON.stringify([{ name: 'tz', value: 'Mars/Olympus' }])), null);
+  assert.equal(siteTimeZoneFromCookies('not json'), null);
+  assert.equal(siteTimeZoneFromCookies(undefined), null);
+  assert.equal(isValidTimeZone('Europe/Paris'), true);
+});
+
+test('resolveScheduledTimes: after-previous follows its own court, unknown starts stay null', () => {
+  const row = (tournament: string, court: string, scheduledTime: string, scheduleKind?: DailyMatch['scheduleKind']) =>
+    ({ tournament, court, scheduledTime, scheduleKind } as DailyMatch);
+  const [first, second, otherCourt, orphan] = resolveScheduledTimes([
+    row('Australian Open', 'Rod Laver Arena', '11:00 am', 'fixed'),
+    row('Australian Open', 'Rod Laver Arena', 'After previous match', 'after_previous'),
+    row('Australian Open', 'Margaret Court Arena', 'After previous match', 'after_previous'),
+    row('Adelaide', '', '', undefined),
+  ], '2026-01-20', 'Australia/Melbourne');
+
+  assert.equal(first.scheduledAt, '2026-01-20T00:00:00.000Z');
+  assert.equal(second.scheduledAt, '2026-01-20T00:00:00.000Z');
+  assert.equal(second.courtOrder, 2);
+  assert.equal(otherCourt.scheduledAt, null);
+  assert.equal(otherCourt.courtOrder, 1);
+  assert.equal(orphan.scheduledAt, null);
+});
@@ -0,0 +1,98 @@
+/**
+ * Row mapping shared by every storage backend (storage.ts), and the local
+ * backends end to end in a temporary directory.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { latestOddsByKey, oddsSnapshotRows } from '../src/storage';
+import { JsonlStorage, SqliteStorage } from '../src/localstore';
+import { DailyMatch } from '../src/types';
+
+const DATE = '2026-01-20';
+const KEY = DATE + '_a-vs-b';
+
+function priced(odds1: number | null, odds2: number | null): DailyMatch {
+  return {
+    tournament: 'Australian Open', country: 'Australia', gender: 'Men', category: 'Singles', surface: 'Hard', round: 'R32',
+    player1: { name: 'Player A', ranking: 1, formScore: 50, odds: odds1 },
+    player2: { name: 'Player B', ranking: 2, formScore: 50, odds: odds2 },
+    scheduledTime: '3:30 pm', status: 'upcoming', h2hUrl: 'https://tennisstats.com/h2h/a-vs-b',
+  };
+}
+
+const snap = (scrapedAt: string, p1: number | null, p2: number | null) =>
+  ({ match_key: KEY, scraped_at: scrapedAt, player1_odds: p1, player2_odds: p2 });
+
+test('latestOddsByKey: latest odds, opening odds from the first snapshot that had them', () => {
+  // Out of order on purpose; player2 had no price in the first snapshot
+  const latest = latestOddsByKey([
+    snap('2026-01-20T12:00:00Z', 1.6, 2.3),
+    snap('2026-01-20T08:00:00Z', 1.8, null),
+    snap('2026-01-20T10:00:00Z', 1.7, 2.1),
+  ]).get(KEY);
+
+  assert.equal(latest.player1_odds, 1.6);
+  assert.equal(latest.player2_odds, 2.3);
+  assert.equal(latest.player1_opening_odds, 1.8);
+  assert.equal(latest.player2_opening_odds, 2.1);
+});
+
+test('oddsSnapshotRows: movement against the latest snapshot, opening odds carried', () => {
+  const previous = latestOddsByKey([snap('2026-01-20T08:00:00Z', 1.8, 2.0), snap('2026-01-20T10:00:00Z', 1.7, 2.2)]);
+  const [row] = oddsSnapshotRows([priced(1.5, 2.6)], DATE, previous, null);
+
+  assert.equal(row.match_key, KEY);
+  assert.equal(row.player1_opening_odds, 1.8);
+  assert.equal(row.player2_opening_odds, 2.0);
+  assert.equal(row.player1_odds_move, -0.2);
+  assert.equal(row.player2_odds_move, 0.4);
+});
+
+test('oddsSnapshotRows: the first snapshot opens the market and has no movement', () => {
+  const [row] = oddsSnapshotRows([priced(1.5, null)], DATE, new Map(), null);
+  assert.equal(row.player1_opening_odds, 1.5);
+  assert.equal(row.player2_opening_odds, null);
+  assert.equal(row.player1_odds_move, null);
+});
+
+test('JsonlStorage: repeated snapshots keep the opening odds and move from the latest', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tennis-jsonl-'));
+  try {
+    const db = new JsonlStorage(dir);
+    for (const odds of [[1.8, 2.0], [1.7, 2.2], [1.5, 2.6]]) {
+      await db.recordOddsSnapshots([priced(odds[0], odds[1])], DATE);
+      await new Promise(r => setTimeout(r, 5)); // distinct scraped_at
+    }
+
+    const rows = fs.readFileSync(path.join(dir, 'tennis_odds_snapshots.jsonl'), 'utf8')
+      .trim().split('\n').map(line => JSON.parse(line));
+    assert.equal(rows.length, 3);
+    const last = rows[2];
+    assert.equal(last.player1_opening_odds, 1.8);
+    assert.equal(last.player2_opening_odds, 2.0);
+    assert.equal(last.player1_odds_move, -0.2);
+    assert.equal(last.player2_odds_move, 0.4);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('SqliteStorage: better-sqlite3 is loaded only when the backend is opened', async () => {
+  const loaded = () => Object.keys(require.cache).some(file => file.includes(path.join('node_modules', 'better-sqlite3')));
+  assert.equal(loaded(), false);
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tennis-sqlite-'));
+  try {
+    const db = new SqliteStorage(path.join(dir, 'tennis.db'));
+    assert.equal(loaded(), true);
+    await db.upsertDailyMatches([priced(1.5, 2.6)], DATE);
+    assert.equal(await db.hasMatchesForDate(DATE), true);
+    await db.close();
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
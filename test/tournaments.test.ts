@@ -0,0 +1,94 @@
+/**
+ * Tournament registry matching: whole-word keywords, exclusions and calendar
+ * windows, in the stored season and in the next one.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  SUPPORTED_TOURNAMENTS,
+  filterSupportedMatches,
+  resolveTournament,
+  tournamentsInPlay,
+  validateTournamentRegistry,
+} from '../src/tournaments';
+
+const names = (date: string) => tournamentsInPlay(date).map(t => t.name + ' (' + t.gender + ')');
+
+test('registry: the built-in list has no problems', () => {
+  assert.deepEqual(validateTournamentRegistry(SUPPORTED_TOURNAMENTS), []);
+});
+
+test('resolveTournament: exact name inside the stored window', () => {
+  const decision = resolveTournament('Australian Open', 'Men', '2026-01-20');
+  assert.equal(decision.tournament?.name, 'Australian Open');
+  assert.equal(decision.confidence, 1);
+  assert.match(decision.reason, /in calendar window/);
+});
+
+test('resolveTournament: qualifying week before the start still matches', () => {
+  assert.equal(resolveTournament('Australian Open', 'Women', '2026-01-12').tournament?.name, 'Australian Open');
+});
+
+test('resolveTournament: the next season matches on month and day at lower confidence', () => {
+  const decision = resolveTournament('Australian Open', 'Men', '2027-01-20');
+  assert.equal(decision.tournament?.name, 'Australian Open');
+  assert.equal(decision.confidence, 0.95);
+  assert.match(decision.reason, /recurring window \(2026 dates\)/);
+});
+
+test('resolveTournament: a week of drift is allowed in other seasons, not in the stored one', () => {
+  // Main draw ends 2026-02-01
+  assert.equal(resolveTournament('Australian Open', 'Men', '2027-02-06').tournament?.name, 'Australian Open');
+  assert.equal(resolveTournament('Australian Open', 'Men', '2026-02-06').tournament, null);
+});
+
+test('resolveTournament: outside the window in any season is rejected with the reason', () => {
+  for (const date of ['2026-07-20', '2027-07-20']) {
+    const decision = resolveTournament('Australian Open', 'Men', date);
+    assert.equal(decision.tournament, null);
+    assert.match(decision.reason, /outside 2026-01-18\.\.2026-02-01/);
+  }
+});
+
+test('resolveTournament: without a date the window is ignored', () => {
+  const decision = resolveTournament('Wimbledon', 'Women');
+  assert.equal(decision.tournament?.name, 'Wimbledon');
+  assert.equal(decision.confidence, 0.9);
+});
+
+test('resolveTournament: keywords match whole words only', () => {
+  assert.equal(resolveTournament('Rio ATP', 'Men').tournament?.name, 'Rio Open');
+  assert.equal(resolveTournament('Ferrol Trio', 'Men').tournament, null);
+  assert.equal(resolveTournament('Rio ATP', 'Men').confidence, 0.9);
+  assert.equal(resolveTournament('Rio de Janeiro', 'Men').confidence, 0.7);
+});
+
+test('resolveTournament: gender and exclusion words', () => {
+  assert.equal(resolveTournament('Rotterdam', 'Women').tournament, null);
+  const challenger = resolveTournament('Rome Challenger', 'Men');
+  assert.equal(challenger.tournament, null);
+  assert.equal(challenger.reason, 'excluded keyword "challenger"');
+});
+
+test('tournamentsInPlay: stored season and the same dates a year later', () => {
+  assert.deepEqual(names('2026-01-20'), ['Australian Open (Both)']);
+  assert.deepEqual(names('2027-01-20'), ['Australian Open (Both)']);
+  assert.deepEqual(names('2027-06-02'), ['French Open (Both)']);
+});
+
+test('tournamentsInPlay: qualifying and off weeks are not in play', () => {
+  assert.deepEqual(names('2026-01-15'), ['Adelaide International (Women)']);
+  assert.deepEqual(names('2027-12-15'), []);
+});
+
+test('filterSupportedMatches: keeps supported rows and resolves ordinal rounds by draw size', () => {
+  const rows = [
+    { tournament: 'Australian Open', gender: 'Men', round: null, roundLabel: '2nd Round' },
+    { tournament: 'Canberra Challenger', gender: 'Men', round: null },
+  ];
+  const supported = filterSupportedMatches(rows, '2027-01-20');
+  assert.equal(supported.length, 1);
+  assert.equal(supported[0].tournamentTier, 'Grand Slam');
+  assert.equal(supported[0].round, 'R64');
+});
@@ -0,0 +1,196 @@
+/**
+ * Row validation: each rule that sends a row to quarantine, and a clean row
+ * going through to the main tables (JSON-lines backend in a temporary directory).
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  checkField,
+  H2H_STAT_SCHEMA,
+  quarantineError,
+  screenH2H,
+  screenMatches,
+  validateDailyMatch,
+  validateH2H,
+} from '../src/validation';
+import { ScrapeError } from '../src/errors';
+import { JsonlStorage } from '../src/localstore';
+import { DailyMatch, GamesLadderEntry, H2HData, H2HPeriodStats } from '../src/types';
+
+const DATE = '2026-01-20';
+
+function match(overrides: Partial<DailyMatch> = {}): DailyMatch {
+  return {
+    tournament: 'Australian Open', country: 'Australia', gender: 'Men', category: 'Singles', surface: 'Hard', round: 'R32',
+    player1: { name: 'Jannik Sinner', ranking: 1, formScore: 80, odds: 1.4 },
+    player2: { name: 'Carlos Alcaraz', ranking: 2, formScore: 75, odds: 2.9 },
+    scheduledTime: '3:30 pm', status: 'upcoming', h2hUrl: 'https://tennisstats.com/h2h/jannik-sinner-vs-carlos-alcaraz',
+    ...overrides,
+  };
+}
+
+const rung = (scope: GamesLadderEntry['scope'], line: number, combinedOverPct: number | null): GamesLadderEntry =>
+  ({ scope, line, p1OverPct: null, p2OverPct: null, combinedOverPct });
+
+function stats(overrides: Partial<H2HPeriodStats> = {}): H2HPeriodStats {
+  const empty = Object.fromEntries(Object.keys(H2H_STAT_SCHEMA).map(key => [key, null])) as H2HPeriodStats;
+  return { ...empty, gamesLadder: {}, p1MatchWinsPct: 80, p2MatchWinsPct: 75, ...overrides };
+}
+
+function h2h(overrides: Partial<H2HData> = {}): H2HData {
+  return {
+    h2hKey: 'jannik-sinner-vs-carlos-alcaraz', player1: 'Jannik Sinner', player2: 'Carlos Alcaraz', category: 'Singles',
+    p1Rank: 1, p2Rank: 2, p1H2HWins: 5, p2H2HWins: 7, p1H2HSets: 12, p2H2HSets: 16,
+    p1CalendarYearWinPct: 0, p1CalendarYearRecord: '0-0', p2CalendarYearWinPct: null, p2CalendarYearRecord: '',
+    p1Last12mWinPct: 88.5, p1Last12mRecord: '62-8', p2Last12mWinPct: 84, p2Last12mRecord: '58-11',
+    matchHistory: [],
+    ...stats({
+      gamesLadder: { 'match:21.5': rung('match', 21.5, 62), 'match:22.5': rung('match', 22.5, 55), 'set:9.5': rung('set', 9.5, 40) },
+    }),
+    periods: {},
+    ...overrides,
+  };
+}
+
+// ─── Fields ──────────────────────────────────────────────────────────────────
+
+test('checkField: missing values only fail required fields', () => {
+  assert.equal(checkField(null, { kind: 'pct' }), null);
+  assert.equal(checkField('', { kind: 'text' }), null);
+  assert.equal(checkField(undefined, { kind: 'text', required: true }), 'missing');
+  assert.equal(checkField(0, { kind: 'count' }), null);
+});
+
+test('checkField: type, whole-number and range violations', () => {
+  assert.equal(checkField(42, { kind: 'text' }), 'not text');
+  assert.equal(checkField('Carpet', { kind: 'enum', values: ['Hard', 'Clay'] }), '"Carpet" not one of Hard/Clay');
+  assert.equal(checkField('55%', { kind: 'pct' }), '"55%" is not a number');
+  assert.equal(checkField(NaN, { kind: 'rate' }), '"NaN" is not a number');
+  assert.equal(checkField(2.5, { kind: 'count' }), '2.5 is not a whole number');
+  assert.equal(checkField(0, { kind: 'rank' }), '0 below 1');
+  assert.equal(checkField(100.5, { kind: 'pct' }), '100.5 above 100');
+  assert.equal(checkField(1.0, { kind: 'odds' }), '1 below 1.01');
+});
+
+// ─── Homepage matches ────────────────────────────────────────────────────────
+
+test('validateDailyMatch: a clean row has no reasons', () => {
+  assert.deepEqual(validateDailyMatch(match()), []);
+  assert.deepEqual(validateDailyMatch(match({ scheduledAt: '2026-01-20T04:30:00.000Z' })), []);
+});
+
+test('validateDailyMatch: one reason per broken rule, by field path', () => {
+  const reasons = validateDailyMatch(match({
+    tournament: '',
+    surface: 'Carpet' as DailyMatch['surface'],
+    player1: { name: 'Jannik Sinner', ranking: 0, formScore: 80, odds: 1.4 },
+    player2: { name: 'Carlos Alcaraz', ranking: 2, formScore: 75, odds: 1.0 },
+  }));
+  assert.deepEqual(reasons, [
+    'tournament: missing',
+    'surface: "Carpet" not one of Hard/Clay/Grass',
+    'player1.ranking: 0 below 1',
+    'player2.odds: 1 below 1.01',
+  ]);
+});
+
+test('validateDailyMatch: URL and timestamp checks', () => {
+  assert.deepEqual(validateDailyMatch(match({ h2hUrl: 'https://tennisstats.com/players/jannik-sinner' })), [
+    'h2hUrl: "https://tennisstats.com/players/jannik-sinner" is not an H2H URL',
+  ]);
+  assert.deepEqual(validateDailyMatch(match({ scheduledAt: 'tomorrow' })), ['scheduledAt: "tomorrow" is not a timestamp']);
+});
+
+test('screenMatches: valid rows pass through, broken ones become quarantine records', () => {
+  const good = match();
+  const bad = match({ status: 'postponed' as DailyMatch['status'], h2hUrl: 'https://tennisstats.com/h2h/a-vs-b' });
+  const { valid, rejected } = screenMatches([good, bad], DATE);
+
+  assert.deepEqual(valid, [good]);
+  assert.equal(rejected.length, 1);
+  assert.equal(rejected[0].kind, 'daily_match');
+  assert.equal(rejected[0].key, DATE + '_a-vs-b');
+  assert.deepEqual(rejected[0].reasons, ['status: "postponed" not one of upcoming/live/finished']);
+  assert.equal(rejected[0].payload, bad);
+});
+
+// ─── H2H pages ───────────────────────────────────────────────────────────────
+
+test('validateH2H / screenH2H: a clean page is not quarantined', () => {
+  assert.deepEqual(validateH2H(h2h()), []);
+  assert.equal(screenH2H(h2h({ periods: { last_12m: stats() } })), null);
+});
+
+test('validateH2H: fewer sets than match wins', () => {
+  assert.deepEqual(validateH2H(h2h({ p2H2HSets: 6 })), ['p2H2HSets: 6 sets for 7 match wins']);
+});
+
+test('validateH2H: key that is not an H2H slug', () => {
+  assert.deepEqual(validateH2H(h2h({ h2hKey: 'jannik sinner' })), ['h2hKey: "jannik sinner" is not an H2H slug']);
+  assert.deepEqual(validateH2H(h2h({ h2hKey: '' })), ['h2hKey: missing']);
+});
+
+test('validateH2H: games ladder out of range or rising with the line', () => {
+  const ladder = {
+    'match:21.5': rung('match', 21.5, 50),
+    'match:22.5': rung('match', 22.5, 58),
+    'set:9.5': { ...rung('set', 9.5, 40), p1OverPct: 120 },
+  };
+  assert.deepEqual(validateH2H(h2h({ gamesLadder: ladder })), [
+    'gamesLadder set:9.5 p1OverPct: 120 above 100',
+    'gamesLadder: over 22.5 (58%) above over 21.5 (50%)',
+  ]);
+});
+
+test('validateH2H: period tabs are checked too, prefixed with the period', () => {
+  const periods = {
+    clay: stats({ p1AcesPerMatch: -1, gamesLadder: { 'match:20.5': rung('match', 20.5, 40), 'match:21.5': rung('match', 21.5, 45) } }),
+  };
+  assert.deepEqual(validateH2H(h2h({ periods })), [
+    'clay.p1AcesPerMatch: -1 below 0',
+    'clay.gamesLadder: over 21.5 (45%) above over 20.5 (40%)',
+  ]);
+});
+
+test('quarantineError: an invalid ScrapeError naming the first reason', () => {
+  const record = screenH2H(h2h({ p1Rank: 0, category: 'Mixed' as H2HData['category'] }));
+  assert.equal(record.kind, 'h2h');
+  assert.equal(record.key, 'jannik-sinner-vs-carlos-alcaraz');
+
+  const error = quarantineError(record);
+  assert.ok(error instanceof ScrapeError);
+  assert.equal(error.kind, 'invalid');
+  assert.match(error.message, /quarantined — category: "Mixed" not one of Singles\/Doubles \(\+1 more\)/);
+});
+
+// ─── Routing ─────────────────────────────────────────────────────────────────
+
+test('JsonlStorage: clean rows reach the main tables, broken ones only the quarantine', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tennis-validate-'));
+  const rows = (table: string) => {
+    const file = path.join(dir, table + '.jsonl');
+    if (!fs.existsSync(file)) return [];
+    return fs.readFileSync(file, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+  };
+
+  try {
+    const db = new JsonlStorage(dir);
+    await db.upsertH2H(h2h());
+    assert.equal(rows('tennis_h2h').length, 1);
+    assert.deepEqual(rows('tennis_quarantine'), []);
+
+    await assert.rejects(db.upsertH2H(h2h({ h2hKey: 'a-vs-b', p1H2HSets: 1 })), (e: ScrapeError) => e.kind === 'invalid');
+    assert.equal(rows('tennis_h2h').length, 1);
+
+    const bad = match({ h2hUrl: 'https://tennisstats.com/h2h/a-vs-b', player1: { name: '', ranking: 3, formScore: 10, odds: 2 } });
+    await db.upsertDailyMatches([match(), bad], DATE);
+    assert.deepEqual(rows('tennis_daily_matches').map(r => r.match_key), [DATE + '_jannik-sinner-vs-carlos-alcaraz']);
+    assert.deepEqual(rows('tennis_quarantine').map(r => [r.kind, r.row_key]), [['h2h', 'a-vs-b'], ['daily_match', DATE + '_a-vs-b']]);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});